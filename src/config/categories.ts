@@ -0,0 +1,71 @@
+import { NotificationCategoryDefinition } from '../types';
+
+/**
+ * Categories seeded into the registry on startup. Admins can edit them through
+ * /admin/categories; edits are kept across restarts.
+ */
+export const DEFAULT_CATEGORIES: NotificationCategoryDefinition[] = [
+  {
+    key: 'transactional',
+    name: 'Account and payments',
+    description: 'Payments, bookings and account security',
+    label: 'account updates',
+    channels: ['push', 'email', 'sms'],
+    defaults: { email: false, push: true, sms: true },
+    mandatory: ['push']
+  },
+  {
+    key: 'taskUpdates',
+    name: 'Task updates',
+    description: 'Offers, messages and status changes on your tasks',
+    label: 'task updates',
+    channels: ['push', 'email', 'sms'],
+    defaults: { email: true, push: true, sms: true },
+    mandatory: []
+  },
+  {
+    key: 'taskReminders',
+    name: 'Task reminders',
+    description: 'Reminders before a task is due',
+    label: 'task reminders',
+    channels: ['push', 'email', 'sms'],
+    defaults: { email: true, push: true, sms: true },
+    mandatory: []
+  },
+  {
+    key: 'keywordTaskAlerts',
+    name: 'Keyword task alerts',
+    description: 'New tasks matching your keyword alerts',
+    label: 'task alerts',
+    channels: ['push'],
+    defaults: { push: true },
+    mandatory: []
+  },
+  {
+    key: 'recommendedTaskAlerts',
+    name: 'Recommended tasks',
+    description: 'Tasks we think you would be good at',
+    label: 'recommended tasks',
+    channels: ['push'],
+    defaults: { push: true },
+    mandatory: []
+  },
+  {
+    key: 'helpfulInformation',
+    name: 'Helpful information',
+    description: 'Tips for getting the most out of the app',
+    label: 'tips',
+    channels: ['push', 'email', 'sms'],
+    defaults: { email: true, push: true, sms: true },
+    mandatory: []
+  },
+  {
+    key: 'updatesNewsletters',
+    name: 'Updates and newsletters',
+    description: 'Product news and newsletters',
+    label: 'updates',
+    channels: ['push', 'email', 'sms'],
+    defaults: { email: true, push: true, sms: true },
+    mandatory: []
+  }
+];
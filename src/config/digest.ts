@@ -0,0 +1,15 @@
+import { DigestSettings } from '../types';
+
+/**
+ * Digest rules applied when a user has not overridden them in their preferences.
+ * Off until the user opts in; the channel and window apply once they enable one.
+ */
+export const DEFAULT_DIGEST_RULES: DigestSettings = {
+  taskUpdates: { enabled: false, channel: 'push', windowMinutes: 5 },
+  helpfulInformation: { enabled: false, channel: 'email', windowMinutes: 24 * 60 }
+};
+
+/**
+ * Most notifications listed in a summary; the rest are only counted
+ */
+export const DIGEST_MAX_ITEMS = 20;
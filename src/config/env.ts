@@ -36,6 +36,84 @@ const envSchema = z.object({
   
   // Service-to-Service Communication
   SERVICE_AUTH_TOKEN: z.string().min(1, 'SERVICE_AUTH_TOKEN is required for service-to-service communication').optional(),
+
+  // Email delivery
+  EMAIL_TRANSPORT: z.enum(['smtp', 'http', 'memory', 'file']).default('memory'),
+  EMAIL_FROM: z.string().default('ExtraHand <no-reply@extrahand.in>'),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.string().transform(Number).default('587'),
+  SMTP_SECURE: z.enum(['true', 'false']).transform(v => v === 'true').default('false'),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASS: z.string().optional(),
+  EMAIL_API_URL: z.string().url('Invalid EMAIL_API_URL').optional(),
+  EMAIL_API_KEY: z.string().optional(),
+  EMAIL_FILE_DIR: z.string().default('logs/emails'),
+
+  // SMS delivery
+  SMS_PROVIDER: z.enum(['twilio', 'msg91', 'fake']).default('fake'),
+  TWILIO_ACCOUNT_SID: z.string().optional(),
+  TWILIO_AUTH_TOKEN: z.string().optional(),
+  TWILIO_FROM_NUMBER: z.string().optional(),
+  MSG91_AUTH_KEY: z.string().optional(),
+  MSG91_SENDER_ID: z.string().optional(),
+  SMS_VERIFICATION_CODE_TTL_MS: z.string().transform(Number).default('600000'), // 10 minutes
+  SMS_VERIFICATION_RESEND_COOLDOWN_MS: z.string().transform(Number).default('60000'), // 1 minute
+  SMS_VERIFICATION_MAX_PER_HOUR: z.string().transform(Number).default('5'), // Codes per user
+  SMS_VERIFICATION_MAX_PER_DAY: z.string().transform(Number).default('10'), // Codes per user
+  SMS_VERIFICATION_MAX_PER_NUMBER_PER_DAY: z.string().transform(Number).default('10'), // Codes per number, across users
+
+  // Web Push (VAPID) for browsers without the Firebase SDK; generate keys with `npx web-push generate-vapid-keys`
+  VAPID_PUBLIC_KEY: z.string().optional(),
+  VAPID_PRIVATE_KEY: z.string().optional(),
+  VAPID_SUBJECT: z.string().default('mailto:no-reply@extrahand.in'),
+
+  // FCM token maintenance
+  TOKEN_MAINTENANCE_ENABLED: z.enum(['true', 'false']).transform(v => v === 'true').default('true'),
+  TOKEN_MAINTENANCE_INTERVAL_MS: z.string().transform(Number).default('21600000'), // 6 hours
+  TOKEN_MAX_AGE_DAYS: z.string().transform(Number).default('60'), // Inactive longer than this is removed
+  TOKEN_MAX_PER_USER: z.string().transform(Number).default('10'),
+  TOKEN_SUSPECT_AGE_DAYS: z.string().transform(Number).default('14'), // Inactive longer than this is validated
+  TOKEN_VALIDATION_LIMIT: z.string().transform(Number).default('1000'), // Tokens validated per run
+
+  // Outbound retry queue
+  QUEUE_ENABLED: z.enum(['true', 'false']).transform(v => v === 'true').default('true'),
+  QUEUE_POLL_INTERVAL_MS: z.string().transform(Number).default('2000'),
+  QUEUE_BATCH_SIZE: z.string().transform(Number).default('20'),
+  QUEUE_MAX_ATTEMPTS: z.string().transform(Number).default('5'),
+  QUEUE_BACKOFF_BASE_MS: z.string().transform(Number).default('5000'),
+  QUEUE_BACKOFF_MAX_MS: z.string().transform(Number).default('900000'), // 15 minutes
+  QUEUE_LOCK_TIMEOUT_MS: z.string().transform(Number).default('300000'), // 5 minutes
+
+  // Batch sends
+  BATCH_SEND_CONCURRENCY: z.string().transform(Number).default('10'),
+  BATCH_SEND_ASYNC_THRESHOLD: z.string().transform(Number).default('1000'), // Larger batches run in the background
+  BATCH_WORKER_ENABLED: z.enum(['true', 'false']).transform(v => v === 'true').default('true'),
+  BATCH_POLL_INTERVAL_MS: z.string().transform(Number).default('2000'),
+  BATCH_CHUNK_SIZE: z.string().transform(Number).default('1000'), // Users per progress update
+
+  // Delivery log
+  DELIVERY_LOG_RETENTION_DAYS: z.string().transform(Number).default('90'),
+
+  // Scheduled notifications
+  SCHEDULER_ENABLED: z.enum(['true', 'false']).transform(v => v === 'true').default('true'),
+  SCHEDULER_POLL_INTERVAL_MS: z.string().transform(Number).default('5000'),
+  SCHEDULER_BATCH_SIZE: z.string().transform(Number).default('50'),
+
+  // Idempotency keys
+  IDEMPOTENCY_TTL_HOURS: z.string().transform(Number).default('24'),
+
+  // Digest summaries
+  DIGEST_ENABLED: z.enum(['true', 'false']).transform(v => v === 'true').default('true'),
+  DIGEST_POLL_INTERVAL_MS: z.string().transform(Number).default('15000'),
+  DIGEST_BATCH_SIZE: z.string().transform(Number).default('50'),
+
+  // Topics users may subscribe to themselves (comma-separated prefixes); services may use any topic
+  USER_TOPIC_PREFIXES: z.string().default('keyword_,city_'),
+
+  // Real-time in-app stream (use "mongo" when running several instances)
+  REALTIME_BUS: z.enum(['local', 'mongo']).default('local'),
+  REALTIME_HEARTBEAT_MS: z.string().transform(Number).default('25000'),
+  REALTIME_MAX_STREAMS_PER_USER: z.string().transform(Number).default('5'), // Open streams per user on each instance
 });
 
 // CORS configuration
@@ -104,12 +182,14 @@ export function getCorsConfig(env: z.infer<typeof envSchema>) {
       'X-API-Key',
       'X-Service-Auth',
       'X-User-Id',
-      'X-Service-Name'
+      'X-Service-Name',
+      'Idempotency-Key'
     ],
     exposedHeaders: [
       'Content-Length',
       'Access-Control-Allow-Origin',
-      'Access-Control-Allow-Credentials'
+      'Access-Control-Allow-Credentials',
+      'Idempotent-Replayed'
     ],
     preflightContinue: false,
     maxAge: 86400 // 24 hours
@@ -143,7 +223,34 @@ export function validateEnv() {
     } else if (hasGoogleCredentials) {
       console.log('✅ Google Application Credentials found');
     }
-    
+
+    // Check email transport configuration
+    if (env.EMAIL_TRANSPORT === 'smtp' && !env.SMTP_HOST) {
+      throw new Error('SMTP_HOST must be provided when EMAIL_TRANSPORT is smtp.');
+    }
+
+    if (env.EMAIL_TRANSPORT === 'http' && (!env.EMAIL_API_URL || !env.EMAIL_API_KEY)) {
+      throw new Error('EMAIL_API_URL and EMAIL_API_KEY must be provided when EMAIL_TRANSPORT is http.');
+    }
+
+    // Check SMS provider configuration
+    if (env.SMS_PROVIDER === 'twilio' && (!env.TWILIO_ACCOUNT_SID || !env.TWILIO_AUTH_TOKEN || !env.TWILIO_FROM_NUMBER)) {
+      throw new Error('TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER must be provided when SMS_PROVIDER is twilio.');
+    }
+
+    if (env.SMS_PROVIDER === 'msg91' && (!env.MSG91_AUTH_KEY || !env.MSG91_SENDER_ID)) {
+      throw new Error('MSG91_AUTH_KEY and MSG91_SENDER_ID must be provided when SMS_PROVIDER is msg91.');
+    }
+
+    // Check Web Push configuration
+    if (!env.VAPID_PUBLIC_KEY !== !env.VAPID_PRIVATE_KEY) {
+      throw new Error('VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY must be provided together.');
+    }
+
+    if (env.VAPID_PUBLIC_KEY && !/^(mailto:|https:\/\/)/.test(env.VAPID_SUBJECT)) {
+      throw new Error('VAPID_SUBJECT must be a mailto: or https:// URL.');
+    }
+
     return env;
   } catch (error) {
     console.error('❌ Environment validation failed:');
@@ -160,5 +267,17 @@ export function validateEnv() {
 
 export type EnvConfig = z.infer<typeof envSchema>;
 
+let cachedEnv: EnvConfig | null = null;
+
+/**
+ * Validated environment, parsed once per process (for hot paths such as workers)
+ */
+export function getEnv(): EnvConfig {
+  if (!cachedEnv) {
+    cachedEnv = validateEnv();
+  }
+  return cachedEnv;
+}
+
 
 
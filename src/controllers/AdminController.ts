@@ -0,0 +1,193 @@
+import { Request, Response } from 'express';
+import { QueueService } from '../services/QueueService';
+import { TokenMaintenanceService } from '../services/TokenMaintenanceService';
+import { DeviceService } from '../services/DeviceService';
+import logger from '../config/logger';
+
+export class AdminController {
+  /**
+   * GET /api/v1/notifications/admin/dead-letters
+   * List jobs that exhausted their retry attempts
+   */
+  static async listDeadLetters(req: Request, res: Response): Promise<void> {
+    try {
+      const { kind, replayed, limit = 50, skip = 0 } = req.query;
+      const limitNum = Math.min(parseInt(limit as string) || 50, 100);
+      const skipNum = parseInt(skip as string) || 0;
+
+      const result = await QueueService.listDeadLetters({
+        kind: kind as string | undefined,
+        replayed: replayed === undefined ? undefined : replayed === 'true',
+        limit: limitNum,
+        skip: skipNum
+      });
+
+      res.json({
+        success: true,
+        data: result.deadLetters,
+        total: result.total,
+        hasMore: skipNum + limitNum < result.total
+      });
+    } catch (error: any) {
+      logger.error('Error listing dead-letter jobs:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to list dead-letter jobs'
+      });
+    }
+  }
+
+  /**
+   * GET /api/v1/notifications/admin/dead-letters/:id
+   * Inspect a single dead-lettered job
+   */
+  static async getDeadLetter(req: Request, res: Response): Promise<void> {
+    try {
+      const deadLetter = await QueueService.getDeadLetter(req.params.id);
+
+      res.json({
+        success: true,
+        data: deadLetter
+      });
+    } catch (error: any) {
+      logger.error('Error fetching dead-letter job:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to fetch dead-letter job'
+      });
+    }
+  }
+
+  /**
+   * POST /api/v1/notifications/admin/dead-letters/:id/replay
+   * Put a dead-lettered job back on the queue
+   */
+  static async replayDeadLetter(req: Request, res: Response): Promise<void> {
+    try {
+      const job = await QueueService.replayDeadLetter(req.params.id);
+
+      res.status(202).json({
+        success: true,
+        data: {
+          jobId: job._id,
+          nextAttemptAt: job.nextAttemptAt
+        },
+        message: 'Dead-letter job re-queued'
+      });
+    } catch (error: any) {
+      logger.error('Error replaying dead-letter job:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to replay dead-letter job'
+      });
+    }
+  }
+
+  /**
+   * GET /api/v1/notifications/admin/token-maintenance/runs
+   * List token maintenance runs and what each removed
+   */
+  static async listTokenMaintenanceRuns(req: Request, res: Response): Promise<void> {
+    try {
+      const { limit = 20, skip = 0 } = req.query;
+      const limitNum = Math.min(parseInt(limit as string) || 20, 100);
+      const skipNum = parseInt(skip as string) || 0;
+
+      const result = await TokenMaintenanceService.listRuns({ limit: limitNum, skip: skipNum });
+
+      res.json({
+        success: true,
+        data: result.runs,
+        total: result.total,
+        hasMore: skipNum + limitNum < result.total
+      });
+    } catch (error: any) {
+      logger.error('Error listing token maintenance runs:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to list token maintenance runs'
+      });
+    }
+  }
+
+  /**
+   * GET /api/v1/notifications/admin/token-maintenance/runs/:id
+   * Inspect a run, including samples of the removed tokens
+   */
+  static async getTokenMaintenanceRun(req: Request, res: Response): Promise<void> {
+    try {
+      const run = await TokenMaintenanceService.getRun(req.params.id);
+
+      res.json({
+        success: true,
+        data: run
+      });
+    } catch (error: any) {
+      logger.error('Error fetching token maintenance run:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to fetch token maintenance run'
+      });
+    }
+  }
+
+  /**
+   * POST /api/v1/notifications/admin/token-maintenance/run
+   * Start a maintenance run now; dryRun reports without removing anything
+   */
+  static async runTokenMaintenance(req: Request, res: Response): Promise<void> {
+    try {
+      const run = await TokenMaintenanceService.trigger({
+        dryRun: req.body?.dryRun === true,
+        triggeredBy: (req as any).serviceName
+      });
+
+      res.status(202).json({
+        success: true,
+        data: {
+          runId: run._id,
+          dryRun: run.dryRun,
+          settings: run.settings
+        },
+        message: 'Token maintenance run started'
+      });
+    } catch (error: any) {
+      logger.error('Error starting token maintenance run:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to start token maintenance run'
+      });
+    }
+  }
+
+  /**
+   * GET /api/v1/notifications/admin/token-audit
+   * List FCM tokens that moved between accounts
+   */
+  static async listTokenAudit(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, limit = 50, skip = 0 } = req.query;
+      const limitNum = Math.min(parseInt(limit as string) || 50, 100);
+      const skipNum = parseInt(skip as string) || 0;
+
+      const result = await DeviceService.listAudit({
+        userId: userId as string | undefined,
+        limit: limitNum,
+        skip: skipNum
+      });
+
+      res.json({
+        success: true,
+        data: result.entries,
+        total: result.total,
+        hasMore: skipNum + limitNum < result.total
+      });
+    } catch (error: any) {
+      logger.error('Error listing token audit log:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to list token audit log'
+      });
+    }
+  }
+}
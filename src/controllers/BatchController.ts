@@ -0,0 +1,69 @@
+import { Request, Response } from 'express';
+import { INotificationBatchDocument } from '../models/NotificationBatch';
+import { NotificationBatchService } from '../services/NotificationBatchService';
+import logger from '../config/logger';
+
+function toBatchResponse(batch: INotificationBatchDocument) {
+  return {
+    batchId: batch._id,
+    kind: batch.kind,
+    channels: batch.channels,
+    status: batch.status,
+    total: batch.total,
+    processed: batch.processed,
+    remaining: batch.total - batch.processed,
+    progress: batch.progress,
+    failures: batch.failures,
+    error: batch.error,
+    createdBy: batch.createdBy,
+    createdAt: batch.createdAt,
+    startedAt: batch.startedAt,
+    completedAt: batch.completedAt,
+    cancelledAt: batch.cancelledAt
+  };
+}
+
+export class BatchController {
+  /**
+   * GET /api/v1/notifications/batches/:batchId
+   * Progress of a background batch, with per-user failures (service-to-service only)
+   */
+  static async getBatch(req: Request, res: Response): Promise<void> {
+    try {
+      const batch = await NotificationBatchService.get(req.params.batchId);
+
+      res.json({
+        success: true,
+        data: toBatchResponse(batch)
+      });
+    } catch (error: any) {
+      logger.error('Error fetching batch:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to fetch batch'
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/v1/notifications/batches/:batchId
+   * Cancel a queued or running batch (service-to-service only)
+   */
+  static async cancelBatch(req: Request, res: Response): Promise<void> {
+    try {
+      const batch = await NotificationBatchService.cancel(req.params.batchId);
+
+      res.json({
+        success: true,
+        data: toBatchResponse(batch),
+        message: 'Batch cancelled'
+      });
+    } catch (error: any) {
+      logger.error('Error cancelling batch:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to cancel batch'
+      });
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import { Request, Response } from 'express';
+import { NotificationCategoryService } from '../services/NotificationCategoryService';
+import logger from '../config/logger';
+
+export class CategoryController {
+  /**
+   * GET /api/v1/notifications/categories
+   * GET /api/v1/notifications/admin/categories
+   * List the registered notification categories
+   */
+  static async listCategories(_req: Request, res: Response): Promise<void> {
+    try {
+      const categories = await NotificationCategoryService.getAll();
+
+      res.json({
+        success: true,
+        data: Array.from(categories.values())
+      });
+    } catch (error: any) {
+      logger.error('Error listing notification categories:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to list notification categories'
+      });
+    }
+  }
+
+  /**
+   * POST /api/v1/notifications/admin/categories
+   * Register a new notification category
+   */
+  static async createCategory(req: Request, res: Response): Promise<void> {
+    try {
+      const category = await NotificationCategoryService.create(req.body, (req as any).serviceName);
+
+      res.status(201).json({
+        success: true,
+        data: category,
+        message: 'Notification category created successfully'
+      });
+    } catch (error: any) {
+      logger.error('Error creating notification category:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to create notification category'
+      });
+    }
+  }
+
+  /**
+   * PATCH /api/v1/notifications/admin/categories/:key
+   * Update a notification category
+   */
+  static async updateCategory(req: Request, res: Response): Promise<void> {
+    try {
+      const category = await NotificationCategoryService.update(req.params.key, req.body);
+
+      res.json({
+        success: true,
+        data: category,
+        message: 'Notification category updated successfully'
+      });
+    } catch (error: any) {
+      logger.error('Error updating notification category:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to update notification category'
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/v1/notifications/admin/categories/:key
+   * Remove a notification category
+   */
+  static async deleteCategory(req: Request, res: Response): Promise<void> {
+    try {
+      await NotificationCategoryService.remove(req.params.key);
+
+      res.json({
+        success: true,
+        message: 'Notification category deleted successfully'
+      });
+    } catch (error: any) {
+      logger.error('Error deleting notification category:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to delete notification category'
+      });
+    }
+  }
+}
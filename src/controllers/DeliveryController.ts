@@ -0,0 +1,83 @@
+import { Request, Response } from 'express';
+import { DeliveryLogService } from '../services/DeliveryLogService';
+import { BadRequestError, NotFoundError } from '../errors/AppError';
+import logger from '../config/logger';
+
+function parseDate(value: unknown, name: string): Date | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const date = new Date(value as string);
+  if (isNaN(date.getTime())) {
+    throw new BadRequestError(`${name} must be a valid ISO date`);
+  }
+  return date;
+}
+
+export class DeliveryController {
+  /**
+   * GET /api/v1/notifications/deliveries
+   * Query the delivery log by user, type, channel and time range (service-to-service only)
+   */
+  static async listDeliveries(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, type, channel, category, status, from, to, limit = 50, skip = 0 } = req.query;
+      const limitNum = Math.min(parseInt(limit as string) || 50, 200);
+      const skipNum = parseInt(skip as string) || 0;
+
+      if (channel && !['push', 'in_app', 'email', 'sms'].includes(channel as string)) {
+        throw new BadRequestError('channel must be push, in_app, email, or sms');
+      }
+
+      const result = await DeliveryLogService.query({
+        userId: userId as string | undefined,
+        type: type as string | undefined,
+        channel: channel as string | undefined,
+        category: category as string | undefined,
+        status: status as string | undefined,
+        from: parseDate(from, 'from'),
+        to: parseDate(to, 'to'),
+        limit: limitNum,
+        skip: skipNum
+      });
+
+      res.json({
+        success: true,
+        data: result.deliveries,
+        total: result.total,
+        hasMore: skipNum + limitNum < result.total
+      });
+    } catch (error: any) {
+      logger.error('Error querying notification deliveries:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to query notification deliveries'
+      });
+    }
+  }
+
+  /**
+   * GET /api/v1/notifications/deliveries/:notificationId
+   * Get every delivery record for a notification (service-to-service only)
+   */
+  static async getDeliveriesByNotification(req: Request, res: Response): Promise<void> {
+    try {
+      const deliveries = await DeliveryLogService.getByNotificationId(req.params.notificationId);
+
+      if (deliveries.length === 0) {
+        throw new NotFoundError('No deliveries found for notification');
+      }
+
+      res.json({
+        success: true,
+        data: deliveries
+      });
+    } catch (error: any) {
+      logger.error('Error fetching notification deliveries:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to fetch notification deliveries'
+      });
+    }
+  }
+}
@@ -0,0 +1,106 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../types';
+import { DeviceService } from '../services/DeviceService';
+import { IFCMTokenDocument } from '../models/FCMToken';
+import { BadRequestError } from '../errors/AppError';
+import logger from '../config/logger';
+
+function toDeviceResponse(device: IFCMTokenDocument) {
+  return {
+    id: device._id,
+    platform: device.platform,
+    deviceId: device.deviceId,
+    deviceName: device.deviceName,
+    appVersion: device.appVersion,
+    osVersion: device.osVersion,
+    locale: device.locale,
+    timezone: device.timezone,
+    muted: device.muted === true,
+    categories: device.categories,
+    tokenSuffix: device.token.slice(-8),
+    lastActive: device.lastActive,
+    createdAt: device.createdAt
+  };
+}
+
+export class DeviceController {
+  /**
+   * GET /api/v1/notifications/devices
+   * List the devices that receive the current user's notifications
+   */
+  static async listDevices(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.uid || (req as any).userId;
+      if (!userId) {
+        throw new BadRequestError('User ID is required');
+      }
+
+      const devices = await DeviceService.list(userId);
+
+      res.json({
+        success: true,
+        data: devices.map(toDeviceResponse)
+      });
+    } catch (error: any) {
+      logger.error('Error listing devices:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to list devices'
+      });
+    }
+  }
+
+  /**
+   * PATCH /api/v1/notifications/devices/:id
+   * Rename, mute/unmute or limit the categories of one of the current user's devices
+   */
+  static async updateDevice(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.uid || (req as any).userId;
+      if (!userId) {
+        throw new BadRequestError('User ID is required');
+      }
+
+      const { deviceName, muted, categories } = req.body;
+      const device = await DeviceService.update(userId, req.params.id, { deviceName, muted, categories });
+
+      res.json({
+        success: true,
+        data: toDeviceResponse(device),
+        message: 'Device updated successfully'
+      });
+    } catch (error: any) {
+      logger.error('Error updating device:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to update device'
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/v1/notifications/devices/:id
+   * Unregister one of the current user's devices
+   */
+  static async removeDevice(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.uid || (req as any).userId;
+      if (!userId) {
+        throw new BadRequestError('User ID is required');
+      }
+
+      await DeviceService.remove(userId, req.params.id);
+
+      res.json({
+        success: true,
+        message: 'Device removed successfully'
+      });
+    } catch (error: any) {
+      logger.error('Error removing device:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to remove device'
+      });
+    }
+  }
+}
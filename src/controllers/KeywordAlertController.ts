@@ -0,0 +1,156 @@
+import { Request, Response } from 'express';
+import { AuthenticatedRequest } from '../types';
+import { KeywordAlertService, KeywordAlertInput } from '../services/KeywordAlertService';
+import { BadRequestError } from '../errors/AppError';
+import logger from '../config/logger';
+
+function toAlertInput(body: Record<string, any>): KeywordAlertInput {
+  const { keywords, categories, location, radiusKm, active } = body;
+  return { keywords, categories, location, radiusKm, active };
+}
+
+export class KeywordAlertController {
+  /**
+   * GET /api/v1/notifications/keyword-alerts
+   * List the current user's keyword alerts
+   */
+  static async listAlerts(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.uid || (req as any).userId;
+      if (!userId) {
+        throw new BadRequestError('User ID is required');
+      }
+
+      const alerts = await KeywordAlertService.list(userId);
+
+      res.json({
+        success: true,
+        data: alerts
+      });
+    } catch (error: any) {
+      logger.error('Error listing keyword alerts:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to list keyword alerts'
+      });
+    }
+  }
+
+  /**
+   * POST /api/v1/notifications/keyword-alerts
+   * Create a keyword alert for the current user
+   */
+  static async createAlert(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.uid || (req as any).userId;
+      if (!userId) {
+        throw new BadRequestError('User ID is required');
+      }
+
+      const alert = await KeywordAlertService.create(userId, toAlertInput(req.body));
+
+      res.status(201).json({
+        success: true,
+        data: alert,
+        message: 'Keyword alert created successfully'
+      });
+    } catch (error: any) {
+      logger.error('Error creating keyword alert:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to create keyword alert'
+      });
+    }
+  }
+
+  /**
+   * PUT /api/v1/notifications/keyword-alerts/:alertId
+   * Update one of the current user's keyword alerts
+   */
+  static async updateAlert(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.uid || (req as any).userId;
+      if (!userId) {
+        throw new BadRequestError('User ID is required');
+      }
+
+      const alert = await KeywordAlertService.update(userId, req.params.alertId, toAlertInput(req.body));
+
+      res.json({
+        success: true,
+        data: alert,
+        message: 'Keyword alert updated successfully'
+      });
+    } catch (error: any) {
+      logger.error('Error updating keyword alert:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to update keyword alert'
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/v1/notifications/keyword-alerts/:alertId
+   * Delete one of the current user's keyword alerts
+   */
+  static async deleteAlert(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.uid || (req as any).userId;
+      if (!userId) {
+        throw new BadRequestError('User ID is required');
+      }
+
+      await KeywordAlertService.remove(userId, req.params.alertId);
+
+      res.json({
+        success: true,
+        message: 'Keyword alert deleted successfully'
+      });
+    } catch (error: any) {
+      logger.error('Error deleting keyword alert:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to delete keyword alert'
+      });
+    }
+  }
+
+  /**
+   * POST /api/v1/notifications/keyword-alerts/match
+   * Match a newly posted task against stored alerts and notify matching users
+   * (service-to-service only)
+   */
+  static async matchTask(req: Request, res: Response): Promise<void> {
+    try {
+      const { task, dryRun } = req.body;
+
+      if (!task || !task.id || !task.title) {
+        throw new BadRequestError('task with id and title is required');
+      }
+
+      const result = await KeywordAlertService.notifyMatches({
+        id: String(task.id),
+        title: String(task.title),
+        description: task.description,
+        category: task.category,
+        location: task.location,
+        posterId: task.posterId
+      }, { dryRun: dryRun === true });
+
+      res.json({
+        success: true,
+        data: result,
+        message: dryRun === true
+          ? `Task matched ${result.matched} user(s)`
+          : `Task matched ${result.matched} user(s), notified ${result.notified}`
+      });
+    } catch (error: any) {
+      logger.error('Error matching task against keyword alerts:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to match task against keyword alerts'
+      });
+    }
+  }
+}
@@ -1,9 +1,74 @@
 import { Response } from 'express';
-import { AuthenticatedRequest } from '../types';
+import { AuthenticatedRequest, EmailContent, NotificationChannel, SmsContent } from '../types';
 import { NotificationService } from '../services/NotificationService';
+import { PhoneNumberService } from '../services/PhoneNumberService';
+import { DispatchService, ALL_CHANNELS } from '../services/DispatchService';
+import { SchedulerService } from '../services/SchedulerService';
+import { TemplateService } from '../services/TemplateService';
+import { RealtimeService } from '../services/RealtimeService';
+import { NotificationBatchService } from '../services/NotificationBatchService';
+import { parsePushOptions } from '../services/push/pushOptions';
+import { SilentPushService } from '../services/SilentPushService';
+import { DeviceService } from '../services/DeviceService';
 import { BadRequestError } from '../errors/AppError';
+import { getEnv } from '../config/env';
 import logger from '../config/logger';
 
+/**
+ * Parse an optional sendAt timestamp. Returns null when the notification
+ * should be sent immediately (no sendAt, or a time that has already passed).
+ */
+function parseSendAt(sendAt: unknown): Date | null {
+  if (sendAt === undefined || sendAt === null || sendAt === '') {
+    return null;
+  }
+
+  const date = new Date(sendAt as string);
+  if (isNaN(date.getTime())) {
+    throw new BadRequestError('sendAt must be a valid ISO date');
+  }
+
+  return date.getTime() > Date.now() ? date : null;
+}
+
+/**
+ * Whether a batch should run as a background job: when the caller asks for it
+ * with async: true, or when it targets more users than BATCH_SEND_ASYNC_THRESHOLD
+ */
+function shouldSendInBackground(async: unknown, userCount: number): boolean {
+  return async === true || userCount > getEnv().BATCH_SEND_ASYNC_THRESHOLD;
+}
+
+/**
+ * Fill title/body (and the email/SMS variants) from the active template for
+ * eventKey when the caller did not provide title and body explicitly
+ */
+async function applyTemplate<T extends {
+  eventKey?: string;
+  title?: string;
+  body?: string;
+  data?: Record<string, any>;
+  locale?: string;
+  category?: any;
+  email?: EmailContent;
+  sms?: SmsContent;
+}>(input: T): Promise<T> {
+  if ((input.title && input.body) || !input.eventKey) {
+    return input;
+  }
+
+  const rendered = await TemplateService.render(input.eventKey, input.data || {}, input.locale);
+
+  return {
+    ...input,
+    title: input.title || rendered.title,
+    body: input.body || rendered.body,
+    category: input.category || rendered.category,
+    email: { ...rendered.email, ...(input.email || {}) },
+    sms: { ...rendered.sms, ...(input.sms || {}) }
+  };
+}
+
 export class NotificationController {
   /**
    * POST /api/v1/notifications/token
@@ -30,15 +95,24 @@ export class NotificationController {
         userId,
         token,
         platform,
-        deviceId
+        deviceId,
+        DeviceService.parseDeviceInfo(req.body),
+        { source: (req as any).serviceName, userAgent: req.get('user-agent') }
       );
 
       res.json({
         success: true,
         data: {
+          id: fcmToken._id,
           token: fcmToken.token,
           platform: fcmToken.platform,
-          deviceId: fcmToken.deviceId
+          deviceId: fcmToken.deviceId,
+          deviceName: fcmToken.deviceName,
+          appVersion: fcmToken.appVersion,
+          osVersion: fcmToken.osVersion,
+          locale: fcmToken.locale,
+          timezone: fcmToken.timezone,
+          muted: fcmToken.muted
         },
         message: 'FCM token registered successfully'
       });
@@ -53,17 +127,22 @@ export class NotificationController {
 
   /**
    * DELETE /api/v1/notifications/token
-   * Remove FCM token
+   * Remove one of the current user's FCM tokens
    */
   static async removeToken(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
+      const userId = req.user?.uid || (req as any).userId;
+      if (!userId) {
+        throw new BadRequestError('User ID is required');
+      }
+
       const { token } = req.body;
 
       if (!token) {
         throw new BadRequestError('Token is required');
       }
 
-      await NotificationService.removeToken(token);
+      await NotificationService.removeToken(userId, token);
 
       res.json({
         success: true,
@@ -131,6 +210,188 @@ export class NotificationController {
     }
   }
 
+  /**
+   * PUT /api/v1/notifications/preferences/dnd
+   * Pause non-essential notifications for a while
+   */
+  static async setDnd(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.uid || (req as any).userId;
+      if (!userId) {
+        throw new BadRequestError('User ID is required');
+      }
+
+      const dnd = await NotificationService.setDnd(userId, req.body);
+
+      res.json({
+        success: true,
+        data: dnd,
+        message: 'Do not disturb enabled'
+      });
+    } catch (error: any) {
+      logger.error('Error enabling do not disturb:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to enable do not disturb'
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/v1/notifications/preferences/dnd
+   * End do not disturb now
+   */
+  static async clearDnd(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.uid || (req as any).userId;
+      if (!userId) {
+        throw new BadRequestError('User ID is required');
+      }
+
+      await NotificationService.clearDnd(userId);
+
+      res.json({
+        success: true,
+        message: 'Do not disturb disabled'
+      });
+    } catch (error: any) {
+      logger.error('Error disabling do not disturb:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to disable do not disturb'
+      });
+    }
+  }
+
+  /**
+   * GET /api/v1/notifications/phone
+   * Get the registered phone number for SMS notifications
+   */
+  static async getPhoneNumber(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.uid || (req as any).userId;
+      if (!userId) {
+        throw new BadRequestError('User ID is required');
+      }
+
+      const phone = await PhoneNumberService.getPhoneNumber(userId);
+
+      res.json({
+        success: true,
+        data: phone ? {
+          phoneNumber: phone.phoneNumber,
+          verified: phone.verified,
+          verifiedAt: phone.verifiedAt,
+          pendingPhoneNumber: phone.pendingPhoneNumber
+        } : null
+      });
+    } catch (error: any) {
+      logger.error('Error fetching phone number:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to fetch phone number'
+      });
+    }
+  }
+
+  /**
+   * POST /api/v1/notifications/phone
+   * Register a phone number and send a verification code
+   */
+  static async registerPhoneNumber(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.uid || (req as any).userId;
+      if (!userId) {
+        throw new BadRequestError('User ID is required');
+      }
+
+      const { phoneNumber } = req.body;
+      if (!phoneNumber) {
+        throw new BadRequestError('phoneNumber is required');
+      }
+
+      const phone = await PhoneNumberService.startVerification(userId, phoneNumber);
+
+      res.json({
+        success: true,
+        data: {
+          phoneNumber: phone.phoneNumber,
+          verified: phone.verified,
+          pendingPhoneNumber: phone.pendingPhoneNumber
+        },
+        message: phone.verified && !phone.pendingPhoneNumber ? 'Phone number already verified' : 'Verification code sent'
+      });
+    } catch (error: any) {
+      logger.error('Error registering phone number:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to register phone number'
+      });
+    }
+  }
+
+  /**
+   * POST /api/v1/notifications/phone/verify
+   * Verify the registered phone number with the code sent via SMS
+   */
+  static async verifyPhoneNumber(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.uid || (req as any).userId;
+      if (!userId) {
+        throw new BadRequestError('User ID is required');
+      }
+
+      const { code } = req.body;
+      if (!code) {
+        throw new BadRequestError('code is required');
+      }
+
+      const phone = await PhoneNumberService.verify(userId, code);
+
+      res.json({
+        success: true,
+        data: {
+          phoneNumber: phone.phoneNumber,
+          verified: phone.verified,
+          verifiedAt: phone.verifiedAt
+        },
+        message: 'Phone number verified successfully'
+      });
+    } catch (error: any) {
+      logger.error('Error verifying phone number:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to verify phone number'
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/v1/notifications/phone
+   * Remove the registered phone number
+   */
+  static async removePhoneNumber(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.uid || (req as any).userId;
+      if (!userId) {
+        throw new BadRequestError('User ID is required');
+      }
+
+      await PhoneNumberService.removePhoneNumber(userId);
+
+      res.json({
+        success: true,
+        message: 'Phone number removed successfully'
+      });
+    } catch (error: any) {
+      logger.error('Error removing phone number:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to remove phone number'
+      });
+    }
+  }
+
   /**
    * POST /api/v1/notifications/send
    * Send notification (service-to-service only)
@@ -138,7 +399,9 @@ export class NotificationController {
   static async sendNotification(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       // Support both old format (single userId) and new format (recipients array)
-      const { userId, recipients, type, eventKey, title, body, data, category } = req.body;
+      const { userId, recipients, type, eventKey, data, channels, sendAt, groupKey, async } = req.body;
+      // title/body may come from the eventKey template
+      const { title, body, category, sms } = await applyTemplate(req.body);
 
       // Accept either userId (single) or recipients (array)
       const targetUsers = recipients && Array.isArray(recipients) ? recipients : [userId];
@@ -148,34 +411,89 @@ export class NotificationController {
         throw new BadRequestError('userId (or recipients array), type (or eventKey), title, and body are required');
       }
 
-      // Send to all target users
-      let totalSent = 0;
-      let totalFailed = 0;
+      // Push is the default channel; SMS is opt-in per request
+      const requestedChannels: string[] = Array.isArray(channels) && channels.length > 0 ? channels : ['push'];
+      if (requestedChannels.some(channel => !['push', 'sms'].includes(channel))) {
+        throw new BadRequestError('channels may only contain push and sms');
+      }
 
-      for (const uid of targetUsers) {
-        try {
-          const result = await NotificationService.sendPushNotification(uid, {
-            type: notificationType,
-            title,
-            body,
-            data,
-            category
-          });
-          totalSent += result.sent || 0;
-          totalFailed += result.failed || 0;
-        } catch (error) {
-          totalFailed++;
-          logger.error('Error sending notification to user', { userId: uid, error });
-        }
+      const notification = {
+        type: notificationType,
+        title,
+        body,
+        data,
+        category,
+        ...parsePushOptions(req.body),
+        sms
+      };
+
+      // Persist for later delivery when sendAt is in the future
+      const scheduledAt = parseSendAt(sendAt);
+      if (scheduledAt) {
+        const scheduled = await SchedulerService.schedule({
+          kind: 'send',
+          userIds: targetUsers,
+          payload: { notification, channels: requestedChannels },
+          sendAt: scheduledAt,
+          groupKey,
+          createdBy: (req as any).serviceName
+        });
+
+        res.status(202).json({
+          success: true,
+          data: {
+            scheduledId: scheduled._id,
+            sendAt: scheduled.sendAt,
+            groupKey: scheduled.groupKey
+          },
+          message: 'Notification scheduled'
+        });
+        return;
+      }
+
+      if (shouldSendInBackground(async, targetUsers.length)) {
+        const batch = await NotificationBatchService.create({
+          kind: 'send',
+          userIds: targetUsers,
+          notification,
+          channels: requestedChannels,
+          createdBy: (req as any).serviceName
+        });
+
+        res.status(202).json({
+          success: true,
+          data: { batchId: batch._id, total: batch.total },
+          message: 'Notification queued for background sending'
+        });
+        return;
       }
 
+      // Send to all target users
+      const result = await NotificationService.sendOnChannels(
+        targetUsers,
+        notification,
+        requestedChannels as Array<'push' | 'sms'>
+      );
+      const push = result.push;
+      const reached = [push, result.sms].reduce(
+        (count, channel) => count + (channel ? channel.users.sent + channel.users.queued + channel.users.deferred : 0),
+        0
+      );
+
       res.json({
-        success: totalSent > 0,
+        success: reached > 0,
         data: {
-          sent: totalSent,
-          failed: totalFailed
+          ...(push && {
+            sent: push.sent,
+            failed: push.failed,
+            deferred: push.deferred,
+            users: push.users,
+            results: push.results
+          }),
+          ...(result.sms && { sms: result.sms })
         },
-        message: `Notification sent to ${totalSent} device(s)`
+        message: `Notification sent to ${push?.sent ?? 0} device(s)` +
+          (result.sms ? ` and ${result.sms.sent} phone(s)` : '')
       });
     } catch (error: any) {
       logger.error('Error sending notification:', error);
@@ -193,7 +511,7 @@ export class NotificationController {
   static async sendBatchNotification(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       // Support both old format (type) and new format (eventKey)
-      const { userIds, type, eventKey, title, body, data, category } = req.body;
+      const { userIds, type, eventKey, title, body, data, category, async } = req.body;
 
       if (!userIds || !Array.isArray(userIds) || userIds.length === 0) {
         throw new BadRequestError('userIds array is required');
@@ -205,20 +523,43 @@ export class NotificationController {
         throw new BadRequestError('type (or eventKey), title, and body are required');
       }
 
-      const result = await NotificationService.sendToMultipleUsers(userIds, {
+      const notification = {
         type: notificationType,
         title,
         body,
         data,
-        category
-      });
+        category,
+        ...parsePushOptions(req.body)
+      };
+
+      if (shouldSendInBackground(async, userIds.length)) {
+        const batch = await NotificationBatchService.create({
+          kind: 'send',
+          userIds,
+          notification,
+          channels: ['push'],
+          createdBy: (req as any).serviceName
+        });
+
+        res.status(202).json({
+          success: true,
+          data: { batchId: batch._id, total: batch.total },
+          message: 'Notifications queued for background sending'
+        });
+        return;
+      }
+
+      const result = await NotificationService.sendToMultipleUsers(userIds, notification);
 
       res.json({
         success: true,
         data: {
           total: result.total,
           sent: result.sent,
-          failed: result.failed
+          failed: result.failed,
+          deferred: result.deferred,
+          users: result.users,
+          results: result.results
         },
         message: `Notifications sent to ${result.sent} user(s)`
       });
@@ -231,6 +572,162 @@ export class NotificationController {
     }
   }
 
+  /**
+   * POST /api/v1/notifications/send-silent
+   * Send a data-only push that triggers background sync without showing
+   * anything (service-to-service only)
+   */
+  static async sendSilentNotification(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId, userIds, ...rest } = req.body;
+
+      const targetUsers: string[] = Array.isArray(userIds) ? userIds : userId ? [userId] : [];
+      if (targetUsers.length === 0) {
+        throw new BadRequestError('userId or userIds array is required');
+      }
+
+      const message = SilentPushService.validate(rest);
+      const result = await SilentPushService.send(targetUsers, message);
+
+      res.json({
+        success: true,
+        data: result,
+        message: `Silent push sent to ${result.sent} device(s)`
+      });
+    } catch (error: any) {
+      logger.error('Error sending silent push:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to send silent push'
+      });
+    }
+  }
+
+  /**
+   * POST /api/v1/notifications/dispatch
+   * Send one notification across push, in-app, email and SMS (service-to-service only)
+   */
+  static async dispatchNotification(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId, recipients, userIds, channels, type, eventKey, data, inApp } = req.body;
+      // title/body may come from the eventKey template
+      const { title, body, category, email, sms } = await applyTemplate(req.body);
+
+      // Accept userId (single), recipients or userIds (array)
+      const targetUsers: string[] = Array.isArray(recipients) ? recipients
+        : Array.isArray(userIds) ? userIds
+        : userId ? [userId] : [];
+      const notificationType = type || eventKey;
+
+      if (targetUsers.length === 0 || !notificationType || !title || !body) {
+        throw new BadRequestError('userId (or recipients/userIds array), type (or eventKey), title, and body are required');
+      }
+
+      const requestedChannels = channels === undefined || channels === 'all' ? 'all' : channels;
+      if (requestedChannels !== 'all' && (
+        !Array.isArray(requestedChannels) ||
+        requestedChannels.length === 0 ||
+        requestedChannels.some((channel: string) => !ALL_CHANNELS.includes(channel as NotificationChannel))
+      )) {
+        throw new BadRequestError(`channels must be "all" or a non-empty array of: ${ALL_CHANNELS.join(', ')}`);
+      }
+
+      if (inApp?.type && !['info', 'warning', 'error', 'success'].includes(inApp.type)) {
+        throw new BadRequestError('inApp.type must be info, warning, error, or success');
+      }
+
+      if (email?.to && targetUsers.length > 1) {
+        throw new BadRequestError('email.to can only be used with a single recipient');
+      }
+
+      const result = await DispatchService.dispatch({
+        userIds: targetUsers,
+        channels: requestedChannels,
+        type: notificationType,
+        title,
+        body,
+        data,
+        category,
+        inApp,
+        push: parsePushOptions(req.body),
+        email,
+        sms
+      });
+
+      res.json({
+        success: Object.values(result.summary).some(channel => channel.sent > 0),
+        data: result,
+        message: `Notification dispatched to ${targetUsers.length} user(s)`
+      });
+    } catch (error: any) {
+      logger.error('Error dispatching notification:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to dispatch notification'
+      });
+    }
+  }
+
+  /**
+   * POST /api/v1/notifications/email/send
+   * Send email notification (service-to-service only)
+   */
+  static async sendEmailNotification(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId, recipients, type, eventKey, data } = req.body;
+      // title/body may come from the eventKey template
+      const { title, body, category, email } = await applyTemplate(req.body);
+
+      // Accept either userId (single) or recipients (array)
+      const targetUsers = recipients && Array.isArray(recipients) ? recipients : [userId];
+      const notificationType = type || eventKey;
+
+      if (!targetUsers[0] || !notificationType || !title || !body) {
+        throw new BadRequestError('userId (or recipients array), type (or eventKey), title, and body are required');
+      }
+
+      if (email?.to && targetUsers.length > 1) {
+        throw new BadRequestError('email.to can only be used with a single recipient');
+      }
+
+      let totalSent = 0;
+      let totalFailed = 0;
+
+      for (const uid of targetUsers) {
+        try {
+          const result = await NotificationService.sendEmailNotification(uid, {
+            type: notificationType,
+            title,
+            body,
+            data,
+            category,
+            email
+          });
+          totalSent += result.sent;
+          totalFailed += result.failed;
+        } catch (error) {
+          totalFailed++;
+          logger.error('Error sending email to user', { userId: uid, error });
+        }
+      }
+
+      res.json({
+        success: totalSent > 0,
+        data: {
+          sent: totalSent,
+          failed: totalFailed
+        },
+        message: `Email sent to ${totalSent} recipient(s)`
+      });
+    } catch (error: any) {
+      logger.error('Error sending email notification:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to send email notification'
+      });
+    }
+  }
+
   /**
    * ============================================================
    * IN-APP NOTIFICATIONS (Polling)
@@ -303,6 +800,29 @@ export class NotificationController {
     }
   }
 
+  /**
+   * GET /api/v1/notifications/in-app/stream
+   * Server-Sent Events stream of new notifications and unread-count changes
+   */
+  static async streamInAppNotifications(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.uid || (req as any).userId;
+      if (!userId) {
+        throw new BadRequestError('User ID is required');
+      }
+
+      const unreadCount = await NotificationService.getUnreadNotificationCount(userId);
+
+      RealtimeService.connect(req, res, userId, unreadCount);
+    } catch (error: any) {
+      logger.error('Error opening in-app notification stream:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to open notification stream'
+      });
+    }
+  }
+
   /**
    * PATCH /api/v1/notifications/in-app/:notificationId/read
    * Mark specific notification as read
@@ -408,20 +928,55 @@ export class NotificationController {
    */
   static async createInAppNotification(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
-      const { userId, title, body, type, category, data } = req.body;
+      const { userId, title, body, type, category, data, sendAt, groupKey } = req.body;
 
       if (!userId || !title || !body) {
         throw new BadRequestError('userId, title, and body are required');
       }
 
-      const notification = await NotificationService.createInAppNotification({
+      const payload = {
         userId,
         title,
         body,
         type: type || 'info',
         category,
         data
-      });
+      };
+
+      // Persist for later delivery when sendAt is in the future
+      const scheduledAt = parseSendAt(sendAt);
+      if (scheduledAt) {
+        const scheduled = await SchedulerService.schedule({
+          kind: 'in_app',
+          userIds: [userId],
+          payload,
+          sendAt: scheduledAt,
+          groupKey,
+          createdBy: (req as any).serviceName
+        });
+
+        res.status(202).json({
+          success: true,
+          data: {
+            scheduledId: scheduled._id,
+            sendAt: scheduled.sendAt,
+            groupKey: scheduled.groupKey
+          },
+          message: 'In-app notification scheduled'
+        });
+        return;
+      }
+
+      const { notification, held } = await NotificationService.createInAppNotification(payload);
+
+      if (held) {
+        res.status(202).json({
+          success: true,
+          data: held,
+          message: 'In-app notification collected into digest'
+        });
+        return;
+      }
 
       res.status(201).json({
         success: true,
@@ -443,26 +998,45 @@ export class NotificationController {
    */
   static async createInAppBatchNotification(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
-      const { userIds, title, body, type, category, data } = req.body;
+      const { userIds, title, body, type, category, data, async } = req.body;
 
       if (!Array.isArray(userIds) || userIds.length === 0 || !title || !body) {
         throw new BadRequestError('userIds (array), title, and body are required');
       }
 
-      const result = await NotificationService.createInAppBatchNotifications({
-        userIds,
+      const notification = {
         title,
         body,
         type: type || 'info',
         category,
         data
-      });
+      };
+
+      if (shouldSendInBackground(async, userIds.length)) {
+        const batch = await NotificationBatchService.create({
+          kind: 'in_app',
+          userIds,
+          notification,
+          channels: ['in_app'],
+          createdBy: (req as any).serviceName
+        });
+
+        res.status(202).json({
+          success: true,
+          data: { batchId: batch._id, total: batch.total },
+          message: 'In-app notifications queued for background creation'
+        });
+        return;
+      }
+
+      const result = await NotificationService.createInAppBatchNotifications({ userIds, ...notification });
 
       res.status(201).json({
         success: true,
         data: {
           total: result.total,
           created: result.created,
+          deferred: result.deferred,
           failed: result.failed
         },
         message: `In-app notifications created for ${result.created} user(s)`
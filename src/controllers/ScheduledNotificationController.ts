@@ -0,0 +1,117 @@
+import { Request, Response } from 'express';
+import { SchedulerService } from '../services/SchedulerService';
+import { BadRequestError } from '../errors/AppError';
+import logger from '../config/logger';
+
+export class ScheduledNotificationController {
+  /**
+   * GET /api/v1/notifications/scheduled
+   * List scheduled notifications by user, group key or status (service-to-service only)
+   */
+  static async listScheduled(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, groupKey, status, limit = 50, skip = 0 } = req.query;
+      const limitNum = Math.min(parseInt(limit as string) || 50, 100);
+      const skipNum = parseInt(skip as string) || 0;
+
+      if (status && !['scheduled', 'processing', 'sent', 'cancelled', 'failed'].includes(status as string)) {
+        throw new BadRequestError('status must be scheduled, processing, sent, cancelled, or failed');
+      }
+
+      const result = await SchedulerService.list({
+        userId: userId as string | undefined,
+        groupKey: groupKey as string | undefined,
+        status: status as any,
+        limit: limitNum,
+        skip: skipNum
+      });
+
+      res.json({
+        success: true,
+        data: result.scheduled,
+        total: result.total,
+        hasMore: skipNum + limitNum < result.total
+      });
+    } catch (error: any) {
+      logger.error('Error listing scheduled notifications:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to list scheduled notifications'
+      });
+    }
+  }
+
+  /**
+   * GET /api/v1/notifications/scheduled/:id
+   * Get a scheduled notification (service-to-service only)
+   */
+  static async getScheduled(req: Request, res: Response): Promise<void> {
+    try {
+      const scheduled = await SchedulerService.get(req.params.id);
+
+      res.json({
+        success: true,
+        data: scheduled
+      });
+    } catch (error: any) {
+      logger.error('Error fetching scheduled notification:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to fetch scheduled notification'
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/v1/notifications/scheduled/:id
+   * Cancel a scheduled notification (service-to-service only)
+   */
+  static async cancelScheduled(req: Request, res: Response): Promise<void> {
+    try {
+      const scheduled = await SchedulerService.cancel(req.params.id);
+
+      res.json({
+        success: true,
+        data: {
+          scheduledId: scheduled._id,
+          status: scheduled.status
+        },
+        message: 'Scheduled notification cancelled'
+      });
+    } catch (error: any) {
+      logger.error('Error cancelling scheduled notification:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to cancel scheduled notification'
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/v1/notifications/scheduled?groupKey=...
+   * Cancel every pending scheduled notification in a group (service-to-service only)
+   */
+  static async cancelScheduledGroup(req: Request, res: Response): Promise<void> {
+    try {
+      const groupKey = (req.query.groupKey || req.body?.groupKey) as string | undefined;
+
+      if (!groupKey) {
+        throw new BadRequestError('groupKey is required');
+      }
+
+      const result = await SchedulerService.cancelGroup(groupKey);
+
+      res.json({
+        success: true,
+        data: result,
+        message: `${result.cancelledCount} scheduled notification(s) cancelled`
+      });
+    } catch (error: any) {
+      logger.error('Error cancelling scheduled notification group:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to cancel scheduled notifications'
+      });
+    }
+  }
+}
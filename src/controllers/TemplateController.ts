@@ -0,0 +1,224 @@
+import { Request, Response } from 'express';
+import { TemplateService, TemplateInput } from '../services/TemplateService';
+import { BadRequestError } from '../errors/AppError';
+import logger from '../config/logger';
+
+function toTemplateInput(req: Request): TemplateInput {
+  const { description, category, defaultLocale, requiredVariables, locales } = req.body;
+
+  if (!locales || typeof locales !== 'object' || Array.isArray(locales)) {
+    throw new BadRequestError('locales object is required, e.g. { "en": { "title": "...", "body": "..." } }');
+  }
+
+  return {
+    description,
+    category,
+    defaultLocale,
+    requiredVariables,
+    locales,
+    createdBy: (req as any).serviceName
+  };
+}
+
+function parseVersion(value: unknown): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const version = parseInt(value as string);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new BadRequestError('version must be a positive integer');
+  }
+  return version;
+}
+
+export class TemplateController {
+  /**
+   * GET /api/v1/notifications/templates
+   * List active templates (service-to-service only)
+   */
+  static async listTemplates(req: Request, res: Response): Promise<void> {
+    try {
+      const { category, limit = 50, skip = 0 } = req.query;
+      const limitNum = Math.min(parseInt(limit as string) || 50, 100);
+      const skipNum = parseInt(skip as string) || 0;
+
+      const result = await TemplateService.list({
+        category: category as string | undefined,
+        limit: limitNum,
+        skip: skipNum
+      });
+
+      res.json({
+        success: true,
+        data: result.templates,
+        total: result.total,
+        hasMore: skipNum + limitNum < result.total
+      });
+    } catch (error: any) {
+      logger.error('Error listing templates:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to list templates'
+      });
+    }
+  }
+
+  /**
+   * GET /api/v1/notifications/templates/:eventKey
+   * Get the active template, or a specific ?version (service-to-service only)
+   */
+  static async getTemplate(req: Request, res: Response): Promise<void> {
+    try {
+      const template = await TemplateService.get(req.params.eventKey, parseVersion(req.query.version));
+
+      res.json({
+        success: true,
+        data: template
+      });
+    } catch (error: any) {
+      logger.error('Error fetching template:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to fetch template'
+      });
+    }
+  }
+
+  /**
+   * GET /api/v1/notifications/templates/:eventKey/versions
+   * List every version of a template (service-to-service only)
+   */
+  static async listTemplateVersions(req: Request, res: Response): Promise<void> {
+    try {
+      const versions = await TemplateService.listVersions(req.params.eventKey);
+
+      res.json({
+        success: true,
+        data: versions
+      });
+    } catch (error: any) {
+      logger.error('Error listing template versions:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to list template versions'
+      });
+    }
+  }
+
+  /**
+   * POST /api/v1/notifications/templates
+   * Create a template (service-to-service only)
+   */
+  static async createTemplate(req: Request, res: Response): Promise<void> {
+    try {
+      const { eventKey } = req.body;
+      if (!eventKey) {
+        throw new BadRequestError('eventKey is required');
+      }
+
+      const template = await TemplateService.create(eventKey, toTemplateInput(req));
+
+      res.status(201).json({
+        success: true,
+        data: template,
+        message: 'Template created successfully'
+      });
+    } catch (error: any) {
+      logger.error('Error creating template:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to create template'
+      });
+    }
+  }
+
+  /**
+   * PUT /api/v1/notifications/templates/:eventKey
+   * Publish a new template version (service-to-service only)
+   */
+  static async updateTemplate(req: Request, res: Response): Promise<void> {
+    try {
+      const template = await TemplateService.createVersion(req.params.eventKey, toTemplateInput(req));
+
+      res.json({
+        success: true,
+        data: template,
+        message: `Template version ${template.version} published`
+      });
+    } catch (error: any) {
+      logger.error('Error updating template:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to update template'
+      });
+    }
+  }
+
+  /**
+   * POST /api/v1/notifications/templates/:eventKey/versions/:version/activate
+   * Roll back to a previous template version (service-to-service only)
+   */
+  static async activateTemplateVersion(req: Request, res: Response): Promise<void> {
+    try {
+      const template = await TemplateService.activateVersion(
+        req.params.eventKey,
+        parseVersion(req.params.version)!
+      );
+
+      res.json({
+        success: true,
+        data: template,
+        message: `Template version ${template.version} activated`
+      });
+    } catch (error: any) {
+      logger.error('Error activating template version:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to activate template version'
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/v1/notifications/templates/:eventKey
+   * Deactivate a template, keeping its version history (service-to-service only)
+   */
+  static async deleteTemplate(req: Request, res: Response): Promise<void> {
+    try {
+      await TemplateService.deactivate(req.params.eventKey);
+
+      res.json({
+        success: true,
+        message: 'Template deactivated successfully'
+      });
+    } catch (error: any) {
+      logger.error('Error deactivating template:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to deactivate template'
+      });
+    }
+  }
+
+  /**
+   * POST /api/v1/notifications/templates/:eventKey/preview
+   * Render the active template with sample data (service-to-service only)
+   */
+  static async previewTemplate(req: Request, res: Response): Promise<void> {
+    try {
+      const { data, locale } = req.body;
+      const rendered = await TemplateService.render(req.params.eventKey, data || {}, locale);
+
+      res.json({
+        success: true,
+        data: rendered
+      });
+    } catch (error: any) {
+      logger.error('Error previewing template:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to preview template'
+      });
+    }
+  }
+}
@@ -0,0 +1,187 @@
+import { Request, Response } from 'express';
+import { AuthenticatedRequest } from '../types';
+import { TopicService } from '../services/TopicService';
+import { parsePushOptions } from '../services/push/pushOptions';
+import { BadRequestError } from '../errors/AppError';
+import logger from '../config/logger';
+
+function getTargetUserIds(body: Record<string, any>): string[] {
+  const { userId, userIds } = body;
+  const targetUsers = userIds || (userId ? [userId] : []);
+
+  if (!Array.isArray(targetUsers) || targetUsers.length === 0) {
+    throw new BadRequestError('userId or userIds array is required');
+  }
+  return targetUsers;
+}
+
+export class TopicController {
+  /**
+   * GET /api/v1/notifications/topics
+   * List the current user's topic subscriptions
+   */
+  static async listMyTopics(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.uid || (req as any).userId;
+      if (!userId) {
+        throw new BadRequestError('User ID is required');
+      }
+
+      const subscriptions = await TopicService.listForUser(userId);
+
+      res.json({
+        success: true,
+        data: subscriptions.map(s => ({ topic: s.topic, subscribedAt: s.createdAt }))
+      });
+    } catch (error: any) {
+      logger.error('Error listing topic subscriptions:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to list topic subscriptions'
+      });
+    }
+  }
+
+  /**
+   * POST /api/v1/notifications/topics
+   * Subscribe the current user to a topic (user-manageable prefixes only)
+   */
+  static async subscribeMe(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.uid || (req as any).userId;
+      if (!userId) {
+        throw new BadRequestError('User ID is required');
+      }
+
+      const topic = TopicService.validateTopic(req.body.topic);
+      TopicService.assertUserSubscribable(topic);
+
+      await TopicService.subscribe([userId], topic);
+
+      res.status(201).json({
+        success: true,
+        data: { topic },
+        message: `Subscribed to ${topic}`
+      });
+    } catch (error: any) {
+      logger.error('Error subscribing to topic:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to subscribe to topic'
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/v1/notifications/topics/:topic
+   * Unsubscribe the current user from a topic (user-manageable prefixes only)
+   */
+  static async unsubscribeMe(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.uid || (req as any).userId;
+      if (!userId) {
+        throw new BadRequestError('User ID is required');
+      }
+
+      const topic = TopicService.validateTopic(req.params.topic);
+      TopicService.assertUserSubscribable(topic);
+
+      const result = await TopicService.unsubscribe([userId], topic);
+
+      res.json({
+        success: true,
+        data: { topic, removed: result.unsubscribed > 0 },
+        message: `Unsubscribed from ${topic}`
+      });
+    } catch (error: any) {
+      logger.error('Error unsubscribing from topic:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to unsubscribe from topic'
+      });
+    }
+  }
+
+  /**
+   * POST /api/v1/notifications/topics/subscribe
+   * Subscribe users to any topic, e.g. city or role (service-to-service only)
+   */
+  static async subscribeUsers(req: Request, res: Response): Promise<void> {
+    try {
+      const topic = TopicService.validateTopic(req.body.topic);
+      const userIds = getTargetUserIds(req.body);
+
+      const result = await TopicService.subscribe(userIds, topic, (req as any).serviceName);
+
+      res.json({
+        success: true,
+        data: { topic, users: userIds.length, subscribed: result.subscribed }
+      });
+    } catch (error: any) {
+      logger.error('Error subscribing users to topic:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to subscribe users to topic'
+      });
+    }
+  }
+
+  /**
+   * POST /api/v1/notifications/topics/unsubscribe
+   * Unsubscribe users from a topic (service-to-service only)
+   */
+  static async unsubscribeUsers(req: Request, res: Response): Promise<void> {
+    try {
+      const topic = TopicService.validateTopic(req.body.topic);
+      const userIds = getTargetUserIds(req.body);
+
+      const result = await TopicService.unsubscribe(userIds, topic);
+
+      res.json({
+        success: true,
+        data: { topic, users: userIds.length, unsubscribed: result.unsubscribed }
+      });
+    } catch (error: any) {
+      logger.error('Error unsubscribing users from topic:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to unsubscribe users from topic'
+      });
+    }
+  }
+
+  /**
+   * POST /api/v1/notifications/topics/send
+   * Broadcast to a topic or condition, with optional in-app fan-out (service-to-service only)
+   */
+  static async sendToTopic(req: Request, res: Response): Promise<void> {
+    try {
+      const { topic, condition, type, eventKey, title, body, data, category, inApp } = req.body;
+
+      const notificationType = type || eventKey;
+      if (!notificationType || !title || !body) {
+        throw new BadRequestError('type (or eventKey), title, and body are required');
+      }
+
+      const result = await TopicService.send({
+        topic,
+        condition,
+        notification: { type: notificationType, title, body, data, category, ...parsePushOptions(req.body) },
+        // inApp: true or { type } also creates in-app notifications for every subscriber
+        inApp: inApp === true ? {} : inApp || undefined
+      });
+
+      res.json({
+        success: true,
+        data: result,
+        message: `Notification sent to ${topic ? `topic ${topic}` : 'condition'}`
+      });
+    } catch (error: any) {
+      logger.error('Error sending topic notification:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to send topic notification'
+      });
+    }
+  }
+}
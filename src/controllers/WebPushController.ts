@@ -0,0 +1,124 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../types';
+import { WebPushService } from '../services/WebPushService';
+import { BadRequestError } from '../errors/AppError';
+import logger from '../config/logger';
+
+export class WebPushController {
+  /**
+   * GET /api/v1/notifications/web-push/public-key
+   * VAPID public key for pushManager.subscribe({ applicationServerKey })
+   */
+  static async getPublicKey(_req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      res.json({
+        success: true,
+        data: { publicKey: WebPushService.getPublicKey() }
+      });
+    } catch (error: any) {
+      logger.error('Error getting VAPID public key:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to get VAPID public key'
+      });
+    }
+  }
+
+  /**
+   * GET /api/v1/notifications/web-push/subscriptions
+   * List the current user's browser subscriptions
+   */
+  static async listSubscriptions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.uid || (req as any).userId;
+      if (!userId) {
+        throw new BadRequestError('User ID is required');
+      }
+
+      const subscriptions = await WebPushService.list(userId);
+
+      res.json({
+        success: true,
+        data: subscriptions.map(s => ({
+          endpoint: s.endpoint,
+          deviceId: s.deviceId,
+          userAgent: s.userAgent,
+          lastActive: s.lastActive,
+          createdAt: s.createdAt
+        }))
+      });
+    } catch (error: any) {
+      logger.error('Error listing web push subscriptions:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to list web push subscriptions'
+      });
+    }
+  }
+
+  /**
+   * POST /api/v1/notifications/web-push/subscriptions
+   * Register a browser PushSubscription for the current user
+   */
+  static async subscribe(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.uid || (req as any).userId;
+      if (!userId) {
+        throw new BadRequestError('User ID is required');
+      }
+
+      const { subscription, deviceId } = req.body;
+      if (!subscription) {
+        throw new BadRequestError('subscription is required');
+      }
+
+      const stored = await WebPushService.register(userId, subscription, {
+        deviceId,
+        userAgent: req.get('user-agent')
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { endpoint: stored.endpoint, deviceId: stored.deviceId },
+        message: 'Web push subscription registered successfully'
+      });
+    } catch (error: any) {
+      logger.error('Error registering web push subscription:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to register web push subscription'
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/v1/notifications/web-push/subscriptions
+   * Remove one of the current user's browser subscriptions
+   */
+  static async unsubscribe(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.uid || (req as any).userId;
+      if (!userId) {
+        throw new BadRequestError('User ID is required');
+      }
+
+      const { endpoint } = req.body;
+      if (!endpoint || typeof endpoint !== 'string') {
+        throw new BadRequestError('endpoint is required');
+      }
+
+      await WebPushService.remove(userId, endpoint);
+
+      res.json({
+        success: true,
+        message: 'Web push subscription removed successfully'
+      });
+    } catch (error: any) {
+      logger.error('Error removing web push subscription:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Failed to remove web push subscription'
+      });
+    }
+  }
+}
@@ -44,6 +44,13 @@ export class ConflictError extends AppError {
   }
 }
 
+export class TooManyRequestsError extends AppError {
+  constructor(message: string = 'Too Many Requests') {
+    super(message, 429);
+    this.name = 'TooManyRequestsError';
+  }
+}
+
 export class InternalServerError extends AppError {
   constructor(message: string = 'Internal Server Error') {
     super(message, 500);
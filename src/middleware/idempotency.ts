@@ -0,0 +1,120 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import IdempotencyKey from '../models/IdempotencyKey';
+import { getEnv } from '../config/env';
+import logger from '../config/logger';
+
+const MAX_KEY_LENGTH = 255;
+const IN_PROGRESS_TIMEOUT_MS = 2 * 60 * 1000;
+
+function hashRequest(body: Record<string, any> | undefined): string {
+  const { dedupeKey: _dedupeKey, ...rest } = body || {};
+  return crypto.createHash('sha256').update(JSON.stringify(rest)).digest('hex');
+}
+
+/**
+ * Idempotency Middleware
+ * When a request carries an Idempotency-Key header (or a dedupeKey body field),
+ * the first response is stored and replayed for repeated requests with the same
+ * key instead of sending the notification again. Keys are scoped to the
+ * calling service, so two services using the same key don't share responses.
+ */
+export function idempotency(scope: string) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const key = ((req.headers['idempotency-key'] as string) || req.body?.dedupeKey || '').toString().trim();
+
+    if (!key) {
+      next();
+      return;
+    }
+
+    if (key.length > MAX_KEY_LENGTH) {
+      res.status(400).json({
+        success: false,
+        error: `Idempotency key must be at most ${MAX_KEY_LENGTH} characters`
+      });
+      return;
+    }
+
+    const requestHash = hashRequest(req.body);
+    const caller: string = (req as any).serviceName || '';
+    const env = getEnv();
+
+    try {
+      await IdempotencyKey.create({
+        scope,
+        caller,
+        key,
+        requestHash,
+        expiresAt: new Date(Date.now() + env.IDEMPOTENCY_TTL_HOURS * 60 * 60 * 1000)
+      });
+    } catch (error: any) {
+      if (error.code !== 11000) {
+        next(error);
+        return;
+      }
+
+      const existing = await IdempotencyKey.findOne({ scope, caller, key });
+
+      if (!existing) {
+        // Expired between the insert and the lookup; let the client retry
+        res.status(409).json({
+          success: false,
+          error: 'Idempotency key conflict, please retry'
+        });
+        return;
+      }
+
+      if (existing.requestHash !== requestHash) {
+        res.status(422).json({
+          success: false,
+          error: 'Idempotency key was already used with a different request body'
+        });
+        return;
+      }
+
+      if (existing.status === 'completed') {
+        logger.info('Replaying idempotent response', { scope, caller, key });
+        res.setHeader('Idempotent-Replayed', 'true');
+        res.status(existing.statusCode || 200).json(existing.responseBody);
+        return;
+      }
+
+      // Take over a request whose original handler never finished (e.g. instance crash)
+      const takenOver = existing.updatedAt.getTime() < Date.now() - IN_PROGRESS_TIMEOUT_MS &&
+        (await IdempotencyKey.updateOne(
+          { _id: existing._id, status: 'in_progress', updatedAt: existing.updatedAt },
+          { $set: { updatedAt: new Date() } },
+          { timestamps: false }
+        )).modifiedCount > 0;
+
+      if (!takenOver) {
+        res.status(409).json({
+          success: false,
+          error: 'A request with this idempotency key is still in progress'
+        });
+        return;
+      }
+    }
+
+    // Store the response once the handler produces it
+    const originalJson = res.json.bind(res);
+    res.json = (responseBody: any) => {
+      const persist = res.statusCode >= 500
+        // Server errors are not final; allow the client to retry with the same key
+        ? IdempotencyKey.deleteOne({ scope, caller, key })
+        : IdempotencyKey.updateOne(
+          { scope, caller, key },
+          { status: 'completed', statusCode: res.statusCode, responseBody }
+        );
+
+      persist.catch((error: any) => {
+        logger.error('Error storing idempotent response:', { scope, caller, key, error: error.message });
+      });
+
+      return originalJson(responseBody);
+    };
+
+    next();
+  };
+}
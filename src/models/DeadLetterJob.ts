@@ -0,0 +1,73 @@
+import mongoose, { Schema, Model, Document } from 'mongoose';
+import { INotificationJobError, NotificationJobKind } from './NotificationJob';
+
+export interface IDeadLetterJobDocument extends Document {
+  originalJobId: string;
+  kind: NotificationJobKind;
+  payload: Record<string, any>;
+  attempts: number;
+  lastError?: INotificationJobError;
+  errorHistory: INotificationJobError[];
+  failedAt: Date;
+  replayedAt?: Date;
+  replayJobId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const JobErrorSchema = new Schema<INotificationJobError>({
+  code: { type: String },
+  message: { type: String, required: true },
+  at: { type: Date, default: Date.now }
+}, { _id: false });
+
+const DeadLetterJobSchema = new Schema<IDeadLetterJobDocument>(
+  {
+    originalJobId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    kind: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    lastError: {
+      type: JobErrorSchema,
+    },
+    errorHistory: {
+      type: [JobErrorSchema],
+      default: [],
+    },
+    failedAt: {
+      type: Date,
+      default: Date.now,
+      index: true,
+    },
+    replayedAt: {
+      type: Date,
+    },
+    replayJobId: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'notification_dead_letters',
+  }
+);
+
+const DeadLetterJob: Model<IDeadLetterJobDocument> =
+  mongoose.models.DeadLetterJob ||
+  mongoose.model<IDeadLetterJobDocument>('DeadLetterJob', DeadLetterJobSchema);
+
+export default DeadLetterJob;
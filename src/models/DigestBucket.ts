@@ -0,0 +1,121 @@
+import mongoose, { Schema, Model, Document } from 'mongoose';
+import { DigestChannel, PushOptions } from '../types';
+
+export type DigestBucketStatus = 'open' | 'processing' | 'sent' | 'failed';
+
+export interface IDigestItem {
+  notificationId: string;
+  type: string; // Event type, or the in-app type for in_app digests
+  title: string;
+  body: string;
+  data?: Record<string, any>;
+  email?: { subject?: string; html?: string; text?: string };
+  push?: PushOptions; // Rich push fields, used when the digest holds only this notification
+  createdAt: Date;
+}
+
+export interface IDigestBucketDocument extends Document {
+  userId: string;
+  category: string;
+  channel: DigestChannel;
+  status: DigestBucketStatus;
+  items: IDigestItem[]; // Most recent DIGEST_MAX_ITEMS notifications
+  count: number; // Every notification collected, including ones trimmed from items
+  flushAt: Date;
+  lockedAt?: Date;
+  sentAt?: Date;
+  result?: Record<string, any>;
+  error?: string;
+  expiresAt?: Date; // For auto-deletion once sent
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DigestItemSchema = new Schema<IDigestItem>(
+  {
+    notificationId: { type: String, required: true },
+    type: { type: String, required: true },
+    title: { type: String, required: true },
+    body: { type: String, required: true },
+    data: { type: Schema.Types.Mixed },
+    email: { type: Schema.Types.Mixed },
+    push: { type: Schema.Types.Mixed },
+    createdAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+const DigestBucketSchema = new Schema<IDigestBucketDocument>(
+  {
+    userId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    category: {
+      type: String,
+      required: true,
+    },
+    channel: {
+      type: String,
+      enum: ['push', 'email', 'in_app'],
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['open', 'processing', 'sent', 'failed'],
+      default: 'open',
+    },
+    items: {
+      type: [DigestItemSchema],
+      default: [],
+    },
+    count: {
+      type: Number,
+      default: 0,
+    },
+    flushAt: {
+      type: Date,
+      required: true,
+    },
+    lockedAt: {
+      type: Date,
+    },
+    sentAt: {
+      type: Date,
+    },
+    result: {
+      type: Schema.Types.Mixed,
+    },
+    error: {
+      type: String,
+    },
+    expiresAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Only one open bucket per user, category and channel
+DigestBucketSchema.index(
+  { userId: 1, category: 1, channel: 1 },
+  { unique: true, partialFilterExpression: { status: 'open' } }
+);
+
+// Compound index for the flush worker's claim query
+DigestBucketSchema.index({ status: 1, flushAt: 1 });
+
+// TTL index for auto-deletion of sent buckets
+DigestBucketSchema.index(
+  { expiresAt: 1 },
+  { expireAfterSeconds: 0, sparse: true }
+);
+
+const DigestBucket: Model<IDigestBucketDocument> =
+  mongoose.models.DigestBucket ||
+  mongoose.model<IDigestBucketDocument>('DigestBucket', DigestBucketSchema);
+
+export default DigestBucket;
@@ -5,7 +5,15 @@ export interface IFCMTokenDocument extends Document {
   token: string;
   platform: 'ios' | 'android' | 'web';
   deviceId?: string;
+  deviceName?: string; // Friendly name shown in the user's device list
+  appVersion?: string;
+  osVersion?: string;
+  locale?: string; // BCP 47 tag, e.g. "en-IN"
+  timezone?: string; // IANA name, e.g. "Asia/Kolkata"
+  muted: boolean; // Muted devices stay registered but receive no notifications
+  categories?: string[]; // Only these preference categories are pushed; all when absent
   lastActive: Date;
+  lastValidatedAt?: Date; // Last FCM dry-run check by token maintenance
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -32,10 +40,39 @@ const FCMTokenSchema = new Schema<IFCMTokenDocument>({
     type: String,
     index: true
   },
+  deviceName: {
+    type: String,
+    trim: true
+  },
+  appVersion: {
+    type: String,
+    trim: true
+  },
+  osVersion: {
+    type: String,
+    trim: true
+  },
+  locale: {
+    type: String
+  },
+  timezone: {
+    type: String
+  },
+  muted: {
+    type: Boolean,
+    default: false
+  },
+  categories: {
+    type: [String],
+    default: undefined
+  },
   lastActive: {
     type: Date,
     default: Date.now,
     index: true
+  },
+  lastValidatedAt: {
+    type: Date
   }
 }, {
   timestamps: true
@@ -47,8 +84,22 @@ FCMTokenSchema.index({ userId: 1, platform: 1 });
 // Remove old tokens when new one is added for same device
 FCMTokenSchema.pre('save', async function(next) {
   if (this.isNew && this.deviceId) {
+    const model = this.constructor as Model<IFCMTokenDocument>;
+
+    // A rotated token keeps the device's name and mute setting
+    const previous = await model.findOne({
+      userId: this.userId,
+      deviceId: this.deviceId,
+      _id: { $ne: this._id }
+    }).sort({ lastActive: -1 });
+    if (previous) {
+      this.deviceName = this.deviceName || previous.deviceName;
+      this.muted = previous.muted;
+      this.categories = previous.categories;
+    }
+
     // Remove old tokens for the same device
-    await (this.constructor as Model<IFCMTokenDocument>).deleteMany({ 
+    await model.deleteMany({ 
       userId: this.userId, 
       deviceId: this.deviceId,
       _id: { $ne: this._id }
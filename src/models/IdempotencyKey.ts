@@ -0,0 +1,65 @@
+import mongoose, { Schema, Model, Document } from 'mongoose';
+
+export interface IIdempotencyKeyDocument extends Document {
+  scope: string; // Endpoint the key was used on, e.g. "send"
+  caller: string; // Calling service (X-Service-Name); keys from different services never collide
+  key: string;
+  requestHash: string;
+  status: 'in_progress' | 'completed';
+  statusCode?: number;
+  responseBody?: any;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const IdempotencyKeySchema = new Schema<IIdempotencyKeyDocument>(
+  {
+    scope: {
+      type: String,
+      required: true,
+    },
+    caller: {
+      type: String,
+      default: '',
+    },
+    key: {
+      type: String,
+      required: true,
+    },
+    requestHash: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['in_progress', 'completed'],
+      default: 'in_progress',
+    },
+    statusCode: {
+      type: Number,
+    },
+    responseBody: {
+      type: Schema.Types.Mixed,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A key may only be used once per endpoint and calling service
+IdempotencyKeySchema.index({ scope: 1, caller: 1, key: 1 }, { unique: true });
+
+// TTL index so keys are forgotten after the retention window
+IdempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const IdempotencyKey: Model<IIdempotencyKeyDocument> =
+  mongoose.models.IdempotencyKey ||
+  mongoose.model<IIdempotencyKeyDocument>('IdempotencyKey', IdempotencyKeySchema);
+
+export default IdempotencyKey;
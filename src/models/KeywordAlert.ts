@@ -0,0 +1,71 @@
+import mongoose, { Schema, Model, Document } from 'mongoose';
+
+export interface IKeywordAlertDocument extends Document {
+  userId: string;
+  keywords: string[]; // Normalized phrases, e.g. ["plumbing", "house cleaning"]
+  keywordTokens: string[]; // Every token of every keyword, for the candidate query
+  categories: string[]; // Task categories (lowercase); empty matches any category
+  location?: {
+    type: 'Point';
+    coordinates: [number, number]; // [lng, lat]
+  };
+  radiusKm?: number;
+  active: boolean;
+  lastMatchedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const KeywordAlertSchema = new Schema<IKeywordAlertDocument>(
+  {
+    userId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    keywords: {
+      type: [String],
+      default: [],
+    },
+    keywordTokens: {
+      type: [String],
+      default: [],
+      index: true,
+    },
+    categories: {
+      type: [String],
+      default: [],
+      index: true,
+    },
+    location: {
+      type: {
+        type: String,
+        enum: ['Point'],
+      },
+      coordinates: {
+        type: [Number],
+      },
+    },
+    radiusKm: {
+      type: Number,
+    },
+    active: {
+      type: Boolean,
+      default: true,
+    },
+    lastMatchedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+KeywordAlertSchema.index({ location: '2dsphere' }, { sparse: true });
+
+const KeywordAlert: Model<IKeywordAlertDocument> =
+  mongoose.models.KeywordAlert ||
+  mongoose.model<IKeywordAlertDocument>('KeywordAlert', KeywordAlertSchema);
+
+export default KeywordAlert;
@@ -0,0 +1,135 @@
+import mongoose, { Schema, Model, Document } from 'mongoose';
+import { NotificationPayload } from '../types';
+
+// send: push/SMS via /send or /send-batch; in_app: /in-app/send-batch
+export type NotificationBatchKind = 'send' | 'in_app';
+export type NotificationBatchStatus = 'queued' | 'processing' | 'completed' | 'cancelled' | 'failed';
+
+export interface IBatchChannelProgress {
+  sent: number;
+  queued: number; // Queued for retry after a transient failure
+  deferred: number; // Held for quiet hours or a digest
+  skipped: number;
+  skippedByPreference: number; // Part of skipped
+  failed: number;
+}
+
+export interface IBatchFailure {
+  userId: string;
+  channel: string;
+  reason?: string;
+}
+
+export interface INotificationBatchDocument extends Document {
+  kind: NotificationBatchKind;
+  channels: string[];
+  userIds: string[];
+  notification: Omit<NotificationPayload, 'userId'>; // in_app batches use title, body, type, category and data
+  status: NotificationBatchStatus;
+  total: number;
+  processed: number; // Users handled so far; the next chunk starts here
+  progress: Record<string, IBatchChannelProgress>; // Keyed by channel
+  failures: IBatchFailure[]; // First MAX_BATCH_FAILURES failed users
+  createdBy?: string;
+  lockedAt?: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  cancelledAt?: Date;
+  error?: string;
+  expiresAt?: Date; // For auto-deletion once finished
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BatchFailureSchema = new Schema<IBatchFailure>(
+  {
+    userId: { type: String, required: true },
+    channel: { type: String, required: true },
+    reason: { type: String },
+  },
+  { _id: false }
+);
+
+const NotificationBatchSchema = new Schema<INotificationBatchDocument>(
+  {
+    kind: {
+      type: String,
+      enum: ['send', 'in_app'],
+      required: true,
+    },
+    channels: {
+      type: [String],
+      required: true,
+    },
+    userIds: {
+      type: [String],
+      required: true,
+    },
+    notification: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['queued', 'processing', 'completed', 'cancelled', 'failed'],
+      default: 'queued',
+      index: true,
+    },
+    total: {
+      type: Number,
+      required: true,
+    },
+    processed: {
+      type: Number,
+      default: 0,
+    },
+    progress: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    failures: {
+      type: [BatchFailureSchema],
+      default: [],
+    },
+    createdBy: {
+      type: String,
+    },
+    lockedAt: {
+      type: Date,
+    },
+    startedAt: {
+      type: Date,
+    },
+    completedAt: {
+      type: Date,
+    },
+    cancelledAt: {
+      type: Date,
+    },
+    error: {
+      type: String,
+    },
+    expiresAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    minimize: false,
+  }
+);
+
+// Compound index for the worker's claim query
+NotificationBatchSchema.index({ status: 1, createdAt: 1 });
+
+// TTL index for auto-deletion of finished batches
+NotificationBatchSchema.index(
+  { expiresAt: 1 },
+  { expireAfterSeconds: 0, sparse: true }
+);
+
+const NotificationBatch: Model<INotificationBatchDocument> =
+  mongoose.models.NotificationBatch ||
+  mongoose.model<INotificationBatchDocument>('NotificationBatch', NotificationBatchSchema);
+
+export default NotificationBatch;
@@ -0,0 +1,64 @@
+import mongoose, { Schema, Model, Document } from 'mongoose';
+import { ChannelPreferences, PreferenceChannel } from '../types';
+
+export interface INotificationCategoryDocument extends Document {
+  key: string;
+  name: string;
+  description?: string;
+  label: string;
+  channels: PreferenceChannel[];
+  defaults: ChannelPreferences;
+  mandatory: PreferenceChannel[];
+  createdBy?: string; // Calling service name
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const NotificationCategorySchema = new Schema<INotificationCategoryDocument>(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    description: {
+      type: String,
+    },
+    label: {
+      type: String,
+      required: true,
+    },
+    channels: {
+      type: [String],
+      enum: ['push', 'email', 'sms'],
+      required: true,
+    },
+    defaults: {
+      push: { type: Boolean },
+      email: { type: Boolean },
+      sms: { type: Boolean },
+    },
+    mandatory: {
+      type: [String],
+      enum: ['push', 'email', 'sms'],
+      default: [],
+    },
+    createdBy: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'notification_categories',
+  }
+);
+
+const NotificationCategory: Model<INotificationCategoryDocument> =
+  mongoose.models.NotificationCategory ||
+  mongoose.model<INotificationCategoryDocument>('NotificationCategory', NotificationCategorySchema);
+
+export default NotificationCategory;
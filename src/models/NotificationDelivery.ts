@@ -0,0 +1,112 @@
+import mongoose, { Schema, Model, Document } from 'mongoose';
+import { NotificationChannel } from '../types';
+
+export type DeliveryStatus = 'sent' | 'partial' | 'queued' | 'failed';
+
+export interface IDeliveryOutcome {
+  target: string; // FCM token, email address, phone number or in-app notification id
+  platform?: string;
+  success: boolean;
+  messageId?: string;
+  errorCode?: string;
+  errorMessage?: string;
+}
+
+export interface INotificationDeliveryDocument extends Document {
+  notificationId: string;
+  userId: string;
+  channel: NotificationChannel;
+  category?: string;
+  type: string;
+  title?: string;
+  status: DeliveryStatus;
+  attempt: number;
+  jobId?: string;
+  outcomes: IDeliveryOutcome[];
+  sentAt: Date;
+  expiresAt?: Date; // For auto-deletion
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DeliveryOutcomeSchema = new Schema<IDeliveryOutcome>({
+  target: { type: String, required: true },
+  platform: { type: String },
+  success: { type: Boolean, required: true },
+  messageId: { type: String },
+  errorCode: { type: String },
+  errorMessage: { type: String }
+}, { _id: false });
+
+const NotificationDeliverySchema = new Schema<INotificationDeliveryDocument>(
+  {
+    notificationId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    channel: {
+      type: String,
+      enum: ['push', 'in_app', 'email', 'sms'],
+      required: true,
+    },
+    category: {
+      type: String,
+    },
+    type: {
+      type: String,
+      required: true,
+    },
+    title: {
+      type: String,
+    },
+    status: {
+      type: String,
+      enum: ['sent', 'partial', 'queued', 'failed'],
+      required: true,
+    },
+    attempt: {
+      type: Number,
+      default: 1,
+    },
+    jobId: {
+      type: String,
+    },
+    outcomes: {
+      type: [DeliveryOutcomeSchema],
+      default: [],
+    },
+    sentAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Compound indexes for support queries
+NotificationDeliverySchema.index({ userId: 1, sentAt: -1 });
+NotificationDeliverySchema.index({ type: 1, sentAt: -1 });
+NotificationDeliverySchema.index({ sentAt: -1 });
+
+// TTL index for auto-deletion of old delivery records
+NotificationDeliverySchema.index(
+  { expiresAt: 1 },
+  { expireAfterSeconds: 0, sparse: true }
+);
+
+const NotificationDelivery: Model<INotificationDeliveryDocument> =
+  mongoose.models.NotificationDelivery ||
+  mongoose.model<INotificationDeliveryDocument>('NotificationDelivery', NotificationDeliverySchema);
+
+export default NotificationDelivery;
@@ -0,0 +1,100 @@
+import mongoose, { Schema, Model, Document } from 'mongoose';
+
+export type NotificationJobKind = 'push';
+
+export type NotificationJobStatus = 'pending' | 'processing' | 'completed';
+
+export interface INotificationJobError {
+  code?: string;
+  message: string;
+  at: Date;
+}
+
+export interface INotificationJobDocument extends Document {
+  kind: NotificationJobKind;
+  payload: Record<string, any>;
+  status: NotificationJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: Date;
+  lockedAt?: Date;
+  lastError?: INotificationJobError;
+  errorHistory: INotificationJobError[];
+  completedAt?: Date;
+  expiresAt?: Date; // For auto-deletion of completed jobs
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const JobErrorSchema = new Schema<INotificationJobError>({
+  code: { type: String },
+  message: { type: String, required: true },
+  at: { type: Date, default: Date.now }
+}, { _id: false });
+
+const NotificationJobSchema = new Schema<INotificationJobDocument>(
+  {
+    kind: {
+      type: String,
+      enum: ['push'],
+      required: true,
+      index: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'processing', 'completed'],
+      default: 'pending',
+      index: true,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    maxAttempts: {
+      type: Number,
+      required: true,
+    },
+    nextAttemptAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lockedAt: {
+      type: Date,
+    },
+    lastError: {
+      type: JobErrorSchema,
+    },
+    errorHistory: {
+      type: [JobErrorSchema],
+      default: [],
+    },
+    completedAt: {
+      type: Date,
+    },
+    expiresAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Compound index for the worker's claim query
+NotificationJobSchema.index({ status: 1, nextAttemptAt: 1 });
+
+// TTL index for auto-deletion of completed jobs
+NotificationJobSchema.index(
+  { expiresAt: 1 },
+  { expireAfterSeconds: 0, sparse: true }
+);
+
+const NotificationJob: Model<INotificationJobDocument> =
+  mongoose.models.NotificationJob ||
+  mongoose.model<INotificationJobDocument>('NotificationJob', NotificationJobSchema);
+
+export default NotificationJob;
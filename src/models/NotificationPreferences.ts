@@ -1,8 +1,9 @@
 import mongoose, { Schema, Model, Document } from 'mongoose';
-import { NotificationPreferences as INotificationPreferences } from '../types';
+import { NotificationPreferences, NotificationSettings } from '../types';
 
-export interface INotificationPreferencesDocument extends Document, INotificationPreferences {
+export interface INotificationPreferencesDocument extends Document, NotificationSettings {
   userId: string;
+  categories: NotificationPreferences;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -15,36 +16,51 @@ const NotificationPreferencesSchema = new Schema<INotificationPreferencesDocumen
     unique: true,  // But enforce uniqueness when userId exists
     index: true
   },
-  transactional: {
-    email: { type: Boolean, default: false },
-    push: { type: Boolean, default: true }, // Required for transactional
-    sms: { type: Boolean, default: true }
+  // Channel choices per registered category, e.g. { taskUpdates: { push: false } }.
+  // Categories missing here use the category's defaults.
+  categories: {
+    type: Schema.Types.Mixed,
+    default: {}
   },
-  taskUpdates: {
-    email: { type: Boolean, default: true },
-    push: { type: Boolean, default: true },
-    sms: { type: Boolean, default: true }
+  timezone: {
+    type: String,
+    default: 'UTC'
   },
-  taskReminders: {
-    email: { type: Boolean, default: true },
-    push: { type: Boolean, default: true },
-    sms: { type: Boolean, default: true }
+  quietHours: {
+    enabled: { type: Boolean, default: false },
+    schedule: {
+      type: [{
+        _id: false,
+        day: { type: Number, min: 0, max: 6, required: true },
+        start: { type: String, required: true }, // "HH:mm"
+        end: { type: String, required: true }
+      }],
+      default: []
+    }
   },
-  keywordTaskAlerts: {
-    push: { type: Boolean, default: true }
+  // Per-category digest overrides; missing categories use DEFAULT_DIGEST_RULES
+  digest: {
+    type: Schema.Types.Mixed,
+    default: {}
   },
-  recommendedTaskAlerts: {
-    push: { type: Boolean, default: true }
+  // Set the app icon badge from the unread count and send silent badge updates
+  badgeUpdates: {
+    type: Boolean,
+    default: true
   },
-  helpfulInformation: {
-    email: { type: Boolean, default: true },
-    push: { type: Boolean, default: true },
-    sms: { type: Boolean, default: true }
+  // Do-not-disturb: non-essential notifications are held or dropped until `until`
+  dnd: {
+    type: new Schema({
+      until: { type: Date, required: true },
+      deliverLater: { type: Boolean, default: false },
+      startedAt: { type: Date, required: true }
+    }, { _id: false }),
+    default: null
   },
-  updatesNewsletters: {
-    email: { type: Boolean, default: true },
-    push: { type: Boolean, default: true },
-    sms: { type: Boolean, default: true }
+  // Push rules per platform (ios, android, web): mute or limit to categories
+  platforms: {
+    type: Schema.Types.Mixed,
+    default: {}
   }
 }, {
   timestamps: true
@@ -52,16 +68,7 @@ const NotificationPreferencesSchema = new Schema<INotificationPreferencesDocumen
 
 // Create default preferences static method
 NotificationPreferencesSchema.statics.createDefault = async function(userId: string) {
-  return this.create({
-    userId,
-    transactional: { email: false, push: true, sms: true },
-    taskUpdates: { email: true, push: true, sms: true },
-    taskReminders: { email: true, push: true, sms: true },
-    keywordTaskAlerts: { push: true },
-    recommendedTaskAlerts: { push: true },
-    helpfulInformation: { email: true, push: true, sms: true },
-    updatesNewsletters: { email: true, push: true, sms: true }
-  });
+  return this.create({ userId });
 };
 
 const NotificationPreferences: Model<INotificationPreferencesDocument> = 
@@ -0,0 +1,86 @@
+import mongoose, { Schema, Model, Document } from 'mongoose';
+
+export interface ITemplateVariant {
+  title: string;
+  body: string;
+  emailSubject?: string;
+  emailHtml?: string;
+  emailText?: string;
+  smsBody?: string;
+}
+
+export interface INotificationTemplateDocument extends Document {
+  eventKey: string;
+  version: number;
+  active: boolean;
+  description?: string;
+  category?: string;
+  defaultLocale: string;
+  requiredVariables: string[];
+  locales: Map<string, ITemplateVariant>;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TemplateVariantSchema = new Schema<ITemplateVariant>({
+  title: { type: String, required: true },
+  body: { type: String, required: true },
+  emailSubject: { type: String },
+  emailHtml: { type: String },
+  emailText: { type: String },
+  smsBody: { type: String }
+}, { _id: false });
+
+const NotificationTemplateSchema = new Schema<INotificationTemplateDocument>(
+  {
+    eventKey: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    version: {
+      type: Number,
+      required: true,
+    },
+    active: {
+      type: Boolean,
+      default: true,
+      index: true,
+    },
+    description: {
+      type: String,
+    },
+    category: {
+      type: String,
+    },
+    defaultLocale: {
+      type: String,
+      default: 'en',
+    },
+    requiredVariables: {
+      type: [String],
+      default: [],
+    },
+    locales: {
+      type: Map,
+      of: TemplateVariantSchema,
+      required: true,
+    },
+    createdBy: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One document per template version
+NotificationTemplateSchema.index({ eventKey: 1, version: -1 }, { unique: true });
+
+const NotificationTemplate: Model<INotificationTemplateDocument> =
+  mongoose.models.NotificationTemplate ||
+  mongoose.model<INotificationTemplateDocument>('NotificationTemplate', NotificationTemplateSchema);
+
+export default NotificationTemplate;
@@ -0,0 +1,61 @@
+import mongoose, { Schema, Model, Document } from 'mongoose';
+
+export interface IPhoneNumberDocument extends Document {
+  userId: string;
+  phoneNumber: string; // E.164
+  verified: boolean;
+  verifiedAt?: Date;
+  pendingPhoneNumber?: string; // New number awaiting verification; phoneNumber stays in use until then
+  verificationCodeHash?: string;
+  verificationExpiresAt?: Date;
+  verificationAttempts: number; // Failed attempts since verificationWindowStartedAt, kept across resends
+  verificationWindowStartedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const PhoneNumberSchema = new Schema<IPhoneNumberDocument>({
+  userId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true
+  },
+  phoneNumber: {
+    type: String,
+    required: true,
+    index: true
+  },
+  verified: {
+    type: Boolean,
+    default: false
+  },
+  verifiedAt: {
+    type: Date
+  },
+  pendingPhoneNumber: {
+    type: String
+  },
+  verificationCodeHash: {
+    type: String,
+    select: false
+  },
+  verificationExpiresAt: {
+    type: Date
+  },
+  verificationAttempts: {
+    type: Number,
+    default: 0
+  },
+  verificationWindowStartedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+const PhoneNumber: Model<IPhoneNumberDocument> =
+  mongoose.models.PhoneNumber ||
+  mongoose.model<IPhoneNumberDocument>('PhoneNumber', PhoneNumberSchema);
+
+export default PhoneNumber;
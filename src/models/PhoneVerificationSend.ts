@@ -0,0 +1,46 @@
+import mongoose, { Schema, Model, Document } from 'mongoose';
+
+export interface IPhoneVerificationSendDocument extends Document {
+  userId: string;
+  phoneNumber: string; // E.164
+  expiresAt: Date; // For auto-deletion once outside every send limit window
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PhoneVerificationSendSchema = new Schema<IPhoneVerificationSendDocument>(
+  {
+    userId: {
+      type: String,
+      required: true,
+    },
+    phoneNumber: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'phone_verification_sends',
+  }
+);
+
+// Send limit lookups per user and per number
+PhoneVerificationSendSchema.index({ userId: 1, createdAt: -1 });
+PhoneVerificationSendSchema.index({ phoneNumber: 1, createdAt: -1 });
+
+// TTL index for auto-deletion of old sends
+PhoneVerificationSendSchema.index(
+  { expiresAt: 1 },
+  { expireAfterSeconds: 0 }
+);
+
+const PhoneVerificationSend: Model<IPhoneVerificationSendDocument> =
+  mongoose.models.PhoneVerificationSend ||
+  mongoose.model<IPhoneVerificationSendDocument>('PhoneVerificationSend', PhoneVerificationSendSchema);
+
+export default PhoneVerificationSend;
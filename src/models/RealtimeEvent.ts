@@ -0,0 +1,41 @@
+import mongoose, { Schema, Model, Document } from 'mongoose';
+
+export interface IRealtimeEventDocument extends Document {
+  userId: string;
+  event: string;
+  data: Record<string, any>;
+  createdAt: Date;
+}
+
+const RealtimeEventSchema = new Schema<IRealtimeEventDocument>(
+  {
+    userId: {
+      type: String,
+      required: true,
+    },
+    event: {
+      type: String,
+      required: true,
+    },
+    data: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    collection: 'realtime_events',
+  }
+);
+
+// Events only need to live long enough for every instance's change stream to see them
+RealtimeEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: 300 });
+
+const RealtimeEvent: Model<IRealtimeEventDocument> =
+  mongoose.models.RealtimeEvent ||
+  mongoose.model<IRealtimeEventDocument>('RealtimeEvent', RealtimeEventSchema);
+
+export default RealtimeEvent;
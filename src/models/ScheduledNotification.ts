@@ -0,0 +1,97 @@
+import mongoose, { Schema, Model, Document } from 'mongoose';
+
+// "deferred" holds a single user's push/email/SMS back until their quiet hours or do-not-disturb end
+export type ScheduledNotificationKind = 'send' | 'in_app' | 'deferred';
+
+export type ScheduledNotificationStatus = 'scheduled' | 'processing' | 'sent' | 'cancelled' | 'failed';
+
+export interface IScheduledNotificationDocument extends Document {
+  kind: ScheduledNotificationKind;
+  userIds: string[];
+  payload: Record<string, any>;
+  sendAt: Date;
+  status: ScheduledNotificationStatus;
+  groupKey?: string; // e.g. "task:123:reminders" to cancel related notifications together
+  createdBy?: string; // Calling service name
+  lockedAt?: Date;
+  sentAt?: Date;
+  cancelledAt?: Date;
+  result?: Record<string, any>;
+  error?: string;
+  expiresAt?: Date; // For auto-deletion once sent or cancelled
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ScheduledNotificationSchema = new Schema<IScheduledNotificationDocument>(
+  {
+    kind: {
+      type: String,
+      enum: ['send', 'in_app', 'deferred'],
+      required: true,
+    },
+    userIds: {
+      type: [String],
+      required: true,
+      index: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    sendAt: {
+      type: Date,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['scheduled', 'processing', 'sent', 'cancelled', 'failed'],
+      default: 'scheduled',
+      index: true,
+    },
+    groupKey: {
+      type: String,
+      index: true,
+      sparse: true,
+    },
+    createdBy: {
+      type: String,
+    },
+    lockedAt: {
+      type: Date,
+    },
+    sentAt: {
+      type: Date,
+    },
+    cancelledAt: {
+      type: Date,
+    },
+    result: {
+      type: Schema.Types.Mixed,
+    },
+    error: {
+      type: String,
+    },
+    expiresAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Compound index for the scheduler's claim query
+ScheduledNotificationSchema.index({ status: 1, sendAt: 1 });
+
+// TTL index for auto-deletion of finished schedules
+ScheduledNotificationSchema.index(
+  { expiresAt: 1 },
+  { expireAfterSeconds: 0, sparse: true }
+);
+
+const ScheduledNotification: Model<IScheduledNotificationDocument> =
+  mongoose.models.ScheduledNotification ||
+  mongoose.model<IScheduledNotificationDocument>('ScheduledNotification', ScheduledNotificationSchema);
+
+export default ScheduledNotification;
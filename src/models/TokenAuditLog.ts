@@ -0,0 +1,78 @@
+import mongoose, { Schema, Model, Document } from 'mongoose';
+
+export type TokenAuditAction = 'reassigned';
+
+export interface ITokenAuditLogDocument extends Document {
+  action: TokenAuditAction;
+  tokenSuffix: string; // Last characters only; full tokens are not kept in the log
+  platform: string;
+  fromUserId: string;
+  toUserId: string;
+  previousDeviceId?: string;
+  deviceId?: string;
+  source?: string; // Calling service, when registered through the gateway
+  userAgent?: string;
+  expiresAt: Date; // For auto-deletion of old entries
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TokenAuditLogSchema = new Schema<ITokenAuditLogDocument>(
+  {
+    action: {
+      type: String,
+      enum: ['reassigned'],
+      required: true,
+    },
+    tokenSuffix: {
+      type: String,
+      required: true,
+    },
+    platform: {
+      type: String,
+      required: true,
+    },
+    fromUserId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    toUserId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    previousDeviceId: {
+      type: String,
+    },
+    deviceId: {
+      type: String,
+    },
+    source: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'token_audit_logs',
+  }
+);
+
+// TTL index for auto-deletion of old entries
+TokenAuditLogSchema.index(
+  { expiresAt: 1 },
+  { expireAfterSeconds: 0, sparse: true }
+);
+
+const TokenAuditLog: Model<ITokenAuditLogDocument> =
+  mongoose.models.TokenAuditLog ||
+  mongoose.model<ITokenAuditLogDocument>('TokenAuditLog', TokenAuditLogSchema);
+
+export default TokenAuditLog;
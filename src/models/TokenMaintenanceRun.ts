@@ -0,0 +1,121 @@
+import mongoose, { Schema, Model, Document } from 'mongoose';
+
+export type TokenMaintenanceTrigger = 'schedule' | 'manual';
+export type TokenMaintenanceStatus = 'running' | 'completed' | 'failed';
+export type TokenRemovalReason = 'stale' | 'over_limit' | 'invalid';
+
+export interface IPrunedToken {
+  userId: string;
+  tokenSuffix: string; // Last characters only; full tokens are not kept in reports
+  platform: string;
+  reason: TokenRemovalReason;
+  lastActive?: Date;
+}
+
+export interface ITokenMaintenanceRunDocument extends Document {
+  trigger: TokenMaintenanceTrigger;
+  triggeredBy?: string;
+  dryRun: boolean; // Report what would be removed without deleting
+  status: TokenMaintenanceStatus;
+  settings: {
+    maxAgeDays: number;
+    maxPerUser: number;
+    suspectAgeDays: number;
+    validationLimit: number;
+  };
+  removed: Record<TokenRemovalReason, number>;
+  validated: number; // Suspicious tokens checked with an FCM dry run
+  samples: IPrunedToken[]; // First MAX_RUN_SAMPLES removed tokens
+  error?: string;
+  startedAt: Date;
+  finishedAt?: Date;
+  expiresAt?: Date; // For auto-deletion of old reports
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PrunedTokenSchema = new Schema<IPrunedToken>(
+  {
+    userId: { type: String, required: true },
+    tokenSuffix: { type: String, required: true },
+    platform: { type: String, required: true },
+    reason: { type: String, enum: ['stale', 'over_limit', 'invalid'], required: true },
+    lastActive: { type: Date },
+  },
+  { _id: false }
+);
+
+const TokenMaintenanceRunSchema = new Schema<ITokenMaintenanceRunDocument>(
+  {
+    trigger: {
+      type: String,
+      enum: ['schedule', 'manual'],
+      required: true,
+    },
+    triggeredBy: {
+      type: String,
+    },
+    dryRun: {
+      type: Boolean,
+      default: false,
+    },
+    status: {
+      type: String,
+      enum: ['running', 'completed', 'failed'],
+      default: 'running',
+    },
+    settings: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    removed: {
+      stale: { type: Number, default: 0 },
+      over_limit: { type: Number, default: 0 },
+      invalid: { type: Number, default: 0 },
+    },
+    validated: {
+      type: Number,
+      default: 0,
+    },
+    samples: {
+      type: [PrunedTokenSchema],
+      default: [],
+    },
+    error: {
+      type: String,
+    },
+    startedAt: {
+      type: Date,
+      required: true,
+      index: true,
+    },
+    finishedAt: {
+      type: Date,
+    },
+    expiresAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'token_maintenance_runs',
+  }
+);
+
+// Only one run at a time across instances
+TokenMaintenanceRunSchema.index(
+  { status: 1 },
+  { unique: true, partialFilterExpression: { status: 'running' } }
+);
+
+// TTL index for auto-deletion of old reports
+TokenMaintenanceRunSchema.index(
+  { expiresAt: 1 },
+  { expireAfterSeconds: 0, sparse: true }
+);
+
+const TokenMaintenanceRun: Model<ITokenMaintenanceRunDocument> =
+  mongoose.models.TokenMaintenanceRun ||
+  mongoose.model<ITokenMaintenanceRunDocument>('TokenMaintenanceRun', TokenMaintenanceRunSchema);
+
+export default TokenMaintenanceRun;
@@ -0,0 +1,39 @@
+import mongoose, { Schema, Model, Document } from 'mongoose';
+
+export interface ITopicSubscriptionDocument extends Document {
+  userId: string;
+  topic: string; // e.g. "city_hyderabad", "role_tasker", "keyword_plumbing"
+  subscribedBy?: string; // Calling service name, or unset when the user subscribed
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TopicSubscriptionSchema = new Schema<ITopicSubscriptionDocument>(
+  {
+    userId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    topic: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    subscribedBy: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A user is subscribed to a topic at most once
+TopicSubscriptionSchema.index({ userId: 1, topic: 1 }, { unique: true });
+
+const TopicSubscription: Model<ITopicSubscriptionDocument> =
+  mongoose.models.TopicSubscription ||
+  mongoose.model<ITopicSubscriptionDocument>('TopicSubscription', TopicSubscriptionSchema);
+
+export default TopicSubscription;
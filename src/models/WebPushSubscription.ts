@@ -0,0 +1,57 @@
+import mongoose, { Schema, Model, Document } from 'mongoose';
+
+export interface IWebPushSubscriptionDocument extends Document {
+  userId: string;
+  endpoint: string; // Push service URL, unique per browser subscription
+  keys: {
+    p256dh: string; // Browser public key used to encrypt payloads
+    auth: string;
+  };
+  deviceId?: string;
+  userAgent?: string;
+  expirationTime?: Date;
+  lastActive: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WebPushSubscriptionSchema = new Schema<IWebPushSubscriptionDocument>(
+  {
+    userId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    endpoint: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    keys: {
+      p256dh: { type: String, required: true },
+      auth: { type: String, required: true },
+    },
+    deviceId: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+    expirationTime: {
+      type: Date,
+    },
+    lastActive: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const WebPushSubscription: Model<IWebPushSubscriptionDocument> =
+  mongoose.models.WebPushSubscription ||
+  mongoose.model<IWebPushSubscriptionDocument>('WebPushSubscription', WebPushSubscriptionSchema);
+
+export default WebPushSubscription;
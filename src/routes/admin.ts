@@ -0,0 +1,79 @@
+import { Router } from 'express';
+import { AdminController } from '../controllers/AdminController';
+import { CategoryController } from '../controllers/CategoryController';
+import { serviceAuthMiddleware } from '../middleware/serviceAuth';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+
+// All admin endpoints require service auth
+router.use(serviceAuthMiddleware);
+
+// ============================================================
+// RETRY QUEUE - Dead letters
+// ============================================================
+
+router.get(
+  '/dead-letters',
+  asyncHandler(AdminController.listDeadLetters)
+);
+
+router.get(
+  '/dead-letters/:id',
+  asyncHandler(AdminController.getDeadLetter)
+);
+
+router.post(
+  '/dead-letters/:id/replay',
+  asyncHandler(AdminController.replayDeadLetter)
+);
+
+// ============================================================
+// TOKEN MAINTENANCE - Stale, excess and invalid FCM tokens, reassignment audit
+// ============================================================
+
+router.get(
+  '/token-maintenance/runs',
+  asyncHandler(AdminController.listTokenMaintenanceRuns)
+);
+
+router.get(
+  '/token-maintenance/runs/:id',
+  asyncHandler(AdminController.getTokenMaintenanceRun)
+);
+
+router.post(
+  '/token-maintenance/run',
+  asyncHandler(AdminController.runTokenMaintenance)
+);
+
+router.get(
+  '/token-audit',
+  asyncHandler(AdminController.listTokenAudit)
+);
+
+// ============================================================
+// NOTIFICATION CATEGORIES - Registry used by preferences
+// ============================================================
+
+router.get(
+  '/categories',
+  asyncHandler(CategoryController.listCategories)
+);
+
+router.post(
+  '/categories',
+  asyncHandler(CategoryController.createCategory)
+);
+
+router.patch(
+  '/categories/:key',
+  asyncHandler(CategoryController.updateCategory)
+);
+
+router.delete(
+  '/categories/:key',
+  asyncHandler(CategoryController.deleteCategory)
+);
+
+export default router;
@@ -1,8 +1,10 @@
 import { Router } from 'express';
 import notificationsRouter from './notifications';
+import adminRouter from './admin';
 
 const router = Router();
 
+router.use('/notifications/admin', adminRouter);
 router.use('/notifications', notificationsRouter);
 
 export default router;
@@ -1,8 +1,18 @@
 import { Router } from 'express';
 import { NotificationController } from '../controllers/NotificationController';
+import { DeliveryController } from '../controllers/DeliveryController';
+import { ScheduledNotificationController } from '../controllers/ScheduledNotificationController';
+import { TemplateController } from '../controllers/TemplateController';
+import { TopicController } from '../controllers/TopicController';
+import { KeywordAlertController } from '../controllers/KeywordAlertController';
+import { BatchController } from '../controllers/BatchController';
+import { WebPushController } from '../controllers/WebPushController';
+import { DeviceController } from '../controllers/DeviceController';
+import { CategoryController } from '../controllers/CategoryController';
 import { serviceAuthMiddleware } from '../middleware/serviceAuth';
 import { asyncHandler } from '../middleware/errorHandler';
 import { userOrServiceAuth } from '../middleware/userOrServiceAuth';
+import { idempotency } from '../middleware/idempotency';
 
 const router = Router();
 
@@ -20,6 +30,54 @@ router.delete(
   asyncHandler(NotificationController.removeToken)
 );
 
+router.get(
+  '/devices',
+  userOrServiceAuth,
+  asyncHandler(DeviceController.listDevices)
+);
+
+router.patch(
+  '/devices/:id',
+  userOrServiceAuth,
+  asyncHandler(DeviceController.updateDevice)
+);
+
+router.delete(
+  '/devices/:id',
+  userOrServiceAuth,
+  asyncHandler(DeviceController.removeDevice)
+);
+
+router.get(
+  '/web-push/public-key',
+  userOrServiceAuth,
+  asyncHandler(WebPushController.getPublicKey)
+);
+
+router.get(
+  '/web-push/subscriptions',
+  userOrServiceAuth,
+  asyncHandler(WebPushController.listSubscriptions)
+);
+
+router.post(
+  '/web-push/subscriptions',
+  userOrServiceAuth,
+  asyncHandler(WebPushController.subscribe)
+);
+
+router.delete(
+  '/web-push/subscriptions',
+  userOrServiceAuth,
+  asyncHandler(WebPushController.unsubscribe)
+);
+
+router.get(
+  '/categories',
+  userOrServiceAuth,
+  asyncHandler(CategoryController.listCategories)
+);
+
 router.get(
   '/preferences',
   userOrServiceAuth,
@@ -32,21 +90,268 @@ router.put(
   asyncHandler(NotificationController.updatePreferences)
 );
 
+router.put(
+  '/preferences/dnd',
+  userOrServiceAuth,
+  asyncHandler(NotificationController.setDnd)
+);
+
+router.delete(
+  '/preferences/dnd',
+  userOrServiceAuth,
+  asyncHandler(NotificationController.clearDnd)
+);
+
+router.get(
+  '/phone',
+  userOrServiceAuth,
+  asyncHandler(NotificationController.getPhoneNumber)
+);
+
+router.post(
+  '/phone',
+  userOrServiceAuth,
+  asyncHandler(NotificationController.registerPhoneNumber)
+);
+
+router.post(
+  '/phone/verify',
+  userOrServiceAuth,
+  asyncHandler(NotificationController.verifyPhoneNumber)
+);
+
+router.delete(
+  '/phone',
+  userOrServiceAuth,
+  asyncHandler(NotificationController.removePhoneNumber)
+);
+
+router.get(
+  '/topics',
+  userOrServiceAuth,
+  asyncHandler(TopicController.listMyTopics)
+);
+
+router.post(
+  '/topics',
+  userOrServiceAuth,
+  asyncHandler(TopicController.subscribeMe)
+);
+
+router.delete(
+  '/topics/:topic',
+  userOrServiceAuth,
+  asyncHandler(TopicController.unsubscribeMe)
+);
+
+router.get(
+  '/keyword-alerts',
+  userOrServiceAuth,
+  asyncHandler(KeywordAlertController.listAlerts)
+);
+
+router.post(
+  '/keyword-alerts',
+  userOrServiceAuth,
+  asyncHandler(KeywordAlertController.createAlert)
+);
+
+router.put(
+  '/keyword-alerts/:alertId',
+  userOrServiceAuth,
+  asyncHandler(KeywordAlertController.updateAlert)
+);
+
+router.delete(
+  '/keyword-alerts/:alertId',
+  userOrServiceAuth,
+  asyncHandler(KeywordAlertController.deleteAlert)
+);
+
 // Service-to-service endpoints (require service auth only)
 router.post(
   '/send',
   serviceAuthMiddleware,
+  asyncHandler(idempotency('send')),
   asyncHandler(NotificationController.sendNotification)
 );
 
 router.post(
   '/send-batch',
   serviceAuthMiddleware,
+  asyncHandler(idempotency('send-batch')),
   asyncHandler(NotificationController.sendBatchNotification)
 );
 
+router.post(
+  '/send-silent',
+  serviceAuthMiddleware,
+  asyncHandler(idempotency('send-silent')),
+  asyncHandler(NotificationController.sendSilentNotification)
+);
+
+router.post(
+  '/dispatch',
+  serviceAuthMiddleware,
+  asyncHandler(idempotency('dispatch')),
+  asyncHandler(NotificationController.dispatchNotification)
+);
+
+router.post(
+  '/email/send',
+  serviceAuthMiddleware,
+  asyncHandler(idempotency('email-send')),
+  asyncHandler(NotificationController.sendEmailNotification)
+);
+
+// ============================================================
+// BATCHES - Service endpoints
+// ============================================================
+
+router.get(
+  '/batches/:batchId',
+  serviceAuthMiddleware,
+  asyncHandler(BatchController.getBatch)
+);
+
+router.delete(
+  '/batches/:batchId',
+  serviceAuthMiddleware,
+  asyncHandler(BatchController.cancelBatch)
+);
+
+// ============================================================
+// SCHEDULED NOTIFICATIONS - Service endpoints
+// ============================================================
+
+router.get(
+  '/scheduled',
+  serviceAuthMiddleware,
+  asyncHandler(ScheduledNotificationController.listScheduled)
+);
+
+router.get(
+  '/scheduled/:id',
+  serviceAuthMiddleware,
+  asyncHandler(ScheduledNotificationController.getScheduled)
+);
+
+router.delete(
+  '/scheduled',
+  serviceAuthMiddleware,
+  asyncHandler(ScheduledNotificationController.cancelScheduledGroup)
+);
+
+router.delete(
+  '/scheduled/:id',
+  serviceAuthMiddleware,
+  asyncHandler(ScheduledNotificationController.cancelScheduled)
+);
+
 // ============================================================
-// IN-APP NOTIFICATIONS (Polling) - User endpoints
+// TEMPLATES - Service endpoints
+// ============================================================
+
+router.get(
+  '/templates',
+  serviceAuthMiddleware,
+  asyncHandler(TemplateController.listTemplates)
+);
+
+router.post(
+  '/templates',
+  serviceAuthMiddleware,
+  asyncHandler(TemplateController.createTemplate)
+);
+
+router.get(
+  '/templates/:eventKey',
+  serviceAuthMiddleware,
+  asyncHandler(TemplateController.getTemplate)
+);
+
+router.put(
+  '/templates/:eventKey',
+  serviceAuthMiddleware,
+  asyncHandler(TemplateController.updateTemplate)
+);
+
+router.delete(
+  '/templates/:eventKey',
+  serviceAuthMiddleware,
+  asyncHandler(TemplateController.deleteTemplate)
+);
+
+router.get(
+  '/templates/:eventKey/versions',
+  serviceAuthMiddleware,
+  asyncHandler(TemplateController.listTemplateVersions)
+);
+
+router.post(
+  '/templates/:eventKey/versions/:version/activate',
+  serviceAuthMiddleware,
+  asyncHandler(TemplateController.activateTemplateVersion)
+);
+
+router.post(
+  '/templates/:eventKey/preview',
+  serviceAuthMiddleware,
+  asyncHandler(TemplateController.previewTemplate)
+);
+
+// ============================================================
+// DELIVERY LOG - Service endpoints
+// ============================================================
+
+router.get(
+  '/deliveries',
+  serviceAuthMiddleware,
+  asyncHandler(DeliveryController.listDeliveries)
+);
+
+router.get(
+  '/deliveries/:notificationId',
+  serviceAuthMiddleware,
+  asyncHandler(DeliveryController.getDeliveriesByNotification)
+);
+
+// ============================================================
+// TOPICS - Service endpoints
+// ============================================================
+
+router.post(
+  '/topics/subscribe',
+  serviceAuthMiddleware,
+  asyncHandler(TopicController.subscribeUsers)
+);
+
+router.post(
+  '/topics/unsubscribe',
+  serviceAuthMiddleware,
+  asyncHandler(TopicController.unsubscribeUsers)
+);
+
+router.post(
+  '/topics/send',
+  serviceAuthMiddleware,
+  asyncHandler(idempotency('topics-send')),
+  asyncHandler(TopicController.sendToTopic)
+);
+
+// ============================================================
+// KEYWORD ALERTS - Service endpoints
+// ============================================================
+
+router.post(
+  '/keyword-alerts/match',
+  serviceAuthMiddleware,
+  asyncHandler(idempotency('keyword-alerts-match')),
+  asyncHandler(KeywordAlertController.matchTask)
+);
+
+// ============================================================
+// IN-APP NOTIFICATIONS (Polling + Server-Sent Events) - User endpoints
 // ============================================================
 
 router.get(
@@ -61,6 +366,12 @@ router.get(
   asyncHandler(NotificationController.getUnreadCount)
 );
 
+router.get(
+  '/in-app/stream',
+  userOrServiceAuth,
+  asyncHandler(NotificationController.streamInAppNotifications)
+);
+
 router.patch(
   '/in-app/:notificationId/read',
   userOrServiceAuth,
@@ -86,12 +397,14 @@ router.delete(
 router.post(
   '/in-app/send',
   serviceAuthMiddleware,
+  asyncHandler(idempotency('in-app-send')),
   asyncHandler(NotificationController.createInAppNotification)
 );
 
 router.post(
   '/in-app/send-batch',
   serviceAuthMiddleware,
+  asyncHandler(idempotency('in-app-send-batch')),
   asyncHandler(NotificationController.createInAppBatchNotification)
 );
 
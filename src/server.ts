@@ -2,6 +2,13 @@ import { createApp } from './app';
 import { connectMongo } from './config/database';
 import { validateEnv } from './config/env';
 import logger from './config/logger';
+import { QueueService } from './services/QueueService';
+import { SchedulerService } from './services/SchedulerService';
+import { RealtimeService } from './services/RealtimeService';
+import { DigestService } from './services/DigestService';
+import { NotificationBatchService } from './services/NotificationBatchService';
+import { TokenMaintenanceService } from './services/TokenMaintenanceService';
+import { NotificationCategoryService } from './services/NotificationCategoryService';
 // ✨ Initialize Firebase BEFORE everything else
 import './config/firebase';
 
@@ -12,6 +19,14 @@ async function startServer() {
     // Connect to MongoDB
     if (env.MONGODB_URI) {
       await connectMongo(env.MONGODB_URI);
+      await NotificationCategoryService.seedDefaults();
+
+      // Background workers need MongoDB
+      QueueService.start();
+      SchedulerService.start();
+      DigestService.start();
+      NotificationBatchService.start();
+      TokenMaintenanceService.start();
     } else {
       logger.warn('⚠️ MONGODB_URI not provided, some features may not work');
     }
@@ -30,11 +45,23 @@ async function startServer() {
     // Graceful shutdown
     process.on('SIGTERM', () => {
       logger.info('SIGTERM signal received: closing HTTP server');
+      QueueService.stop();
+      SchedulerService.stop();
+      DigestService.stop();
+      NotificationBatchService.stop();
+      TokenMaintenanceService.stop();
+      void RealtimeService.stop();
       process.exit(0);
     });
 
     process.on('SIGINT', () => {
       logger.info('SIGINT signal received: closing HTTP server');
+      QueueService.stop();
+      SchedulerService.stop();
+      DigestService.stop();
+      NotificationBatchService.stop();
+      TokenMaintenanceService.stop();
+      void RealtimeService.stop();
       process.exit(0);
     });
 
@@ -0,0 +1,78 @@
+import logger from '../config/logger';
+import NotificationPreferences from '../models/NotificationPreferences';
+import FCMToken from '../models/FCMToken';
+import { buildBadgeMessage, sendMulticast } from './push/fcm';
+
+// FCM accepts at most 500 tokens per multicast
+const MULTICAST_CHUNK_SIZE = 500;
+
+export class BadgeService {
+  /**
+   * Unread in-app notification counts; users with none are 0
+   */
+  static async getUnreadCounts(userIds: string[]): Promise<Map<string, number>> {
+    const InAppNotification = (await import('../models/InAppNotification')).default;
+
+    const counts = await InAppNotification.aggregate<{ _id: string; count: number }>([
+      { $match: { userId: { $in: userIds }, read: false } },
+      { $group: { _id: '$userId', count: { $sum: 1 } } }
+    ]);
+    const countByUser = new Map(counts.map(c => [c._id, c.count]));
+
+    return new Map(userIds.map(userId => [userId, countByUser.get(userId) || 0]));
+  }
+
+  /**
+   * Users who turned badge updates off in their preferences
+   */
+  static async getOptedOut(userIds: string[]): Promise<Set<string>> {
+    const optedOut = await NotificationPreferences.find({ userId: { $in: userIds }, badgeUpdates: false })
+      .select('userId')
+      .lean();
+    return new Set(optedOut.map(p => p.userId));
+  }
+
+  /**
+   * Badge to send with a push: the unread in-app count plus `extra`.
+   * Returns undefined when the user opted out of badge updates.
+   */
+  static async getBadge(userId: string, extra: number = 0): Promise<number | undefined> {
+    const [counts, optedOut] = await Promise.all([
+      this.getUnreadCounts([userId]),
+      this.getOptedOut([userId])
+    ]);
+    return optedOut.has(userId) ? undefined : counts.get(userId)! + extra;
+  }
+
+  /**
+   * Send silent badge-only pushes so app icons match the new unread counts.
+   * Best-effort: failures are logged, never thrown.
+   */
+  static async sendBadgeUpdates(counts: Map<string, number>): Promise<void> {
+    try {
+      const userIds = Array.from(counts.keys());
+      const [optedOut, tokens] = await Promise.all([
+        this.getOptedOut(userIds),
+        FCMToken.find({ userId: { $in: userIds } }).select('userId token').lean()
+      ]);
+
+      // One multicast per badge value
+      const tokensByBadge = new Map<number, string[]>();
+      for (const token of tokens) {
+        if (optedOut.has(token.userId)) {
+          continue;
+        }
+        const badge = counts.get(token.userId)!;
+        tokensByBadge.set(badge, [...(tokensByBadge.get(badge) || []), token.token]);
+      }
+
+      for (const [badge, badgeTokens] of tokensByBadge) {
+        for (let i = 0; i < badgeTokens.length; i += MULTICAST_CHUNK_SIZE) {
+          await sendMulticast(badgeTokens.slice(i, i + MULTICAST_CHUNK_SIZE), buildBadgeMessage(badge));
+        }
+      }
+    } catch (error: any) {
+      logger.error('Error sending badge updates:', { error: error.message });
+    }
+  }
+}
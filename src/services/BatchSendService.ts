@@ -0,0 +1,349 @@
+import { randomUUID } from 'crypto';
+import { BaseMessage } from 'firebase-admin/messaging';
+import logger from '../config/logger';
+import { getEnv } from '../config/env';
+import NotificationPreferences from '../models/NotificationPreferences';
+import FCMToken from '../models/FCMToken';
+import { IDeliveryOutcome } from '../models/NotificationDelivery';
+import {
+  BatchChannelResult,
+  ChannelDispatchResult,
+  NotificationPayload,
+  NotificationPreferences as INotificationPreferences,
+  UserSendResult
+} from '../types';
+import { buildPushMessage, sendMulticast } from './push/fcm';
+import { buildWebPushPayload, sendWebPush, WebPushTarget } from './push/webPush';
+import { filterPushTokens, isPushAllowed } from './push/pushTargets';
+import { mapWithConcurrency } from './concurrency';
+import { isDroppedByDnd } from './quietHours';
+import { isChannelEnabled, NotificationService } from './NotificationService';
+import { NotificationCategoryService } from './NotificationCategoryService';
+import { DeliveryLogService, DeliveryRecord } from './DeliveryLogService';
+import { QueueService } from './QueueService';
+import { toDispatchResult } from './DispatchService';
+import { BadgeService } from './BadgeService';
+import { WebPushService } from './WebPushService';
+
+// Users loaded per round of $in queries
+const USER_CHUNK_SIZE = 1000;
+// FCM accepts at most 500 tokens per multicast
+const MULTICAST_CHUNK_SIZE = 500;
+
+type TokenOutcome = Omit<IDeliveryOutcome, 'target' | 'platform'> & { retryable: boolean };
+
+interface ReadyUser {
+  userId: string;
+  notificationId: string;
+  tokens: Array<{ token: string; platform: string }>;
+  webTargets: WebPushTarget[];
+  badge?: number;
+}
+
+function summarize(results: UserSendResult[]): BatchChannelResult {
+  const summary: BatchChannelResult = {
+    sent: 0,
+    failed: 0,
+    deferred: 0,
+    users: { sent: 0, queued: 0, deferred: 0, skipped: 0, failed: 0 },
+    results
+  };
+
+  for (const result of results) {
+    summary.sent += result.sent || 0;
+    summary.failed += result.failed || 0;
+    summary.users[result.status]++;
+  }
+  summary.deferred = summary.users.deferred;
+
+  return summary;
+}
+
+export class BatchSendService {
+  /**
+   * Send the same push to many users. Preferences and tokens are loaded with
+   * $in queries per chunk of users, tokens from every user are grouped into
+   * 500-token multicasts, and FCM calls run with bounded concurrency.
+   */
+  static async sendPush(
+    userIds: string[],
+    notification: Omit<NotificationPayload, 'userId'>
+  ): Promise<BatchChannelResult> {
+    const uniqueUserIds = Array.from(new Set(userIds.filter(id => typeof id === 'string' && id.trim() !== '')));
+    const results: UserSendResult[] = [];
+
+    for (let i = 0; i < uniqueUserIds.length; i += USER_CHUNK_SIZE) {
+      results.push(...await this.sendPushChunk(uniqueUserIds.slice(i, i + USER_CHUNK_SIZE), notification));
+    }
+
+    const summary = summarize(results);
+
+    logger.info('Batch push notification sent', {
+      type: notification.type,
+      users: uniqueUserIds.length,
+      devicesSent: summary.sent,
+      devicesFailed: summary.failed,
+      ...summary.users
+    });
+
+    return summary;
+  }
+
+  private static async sendPushChunk(
+    userIds: string[],
+    notification: Omit<NotificationPayload, 'userId'>
+  ): Promise<UserSendResult[]> {
+    const env = getEnv();
+    const category = notification.category || 'taskUpdates';
+
+    const [preferences, tokens, webTargetsByUser, definition] = await Promise.all([
+      NotificationPreferences.find({ userId: { $in: userIds } }).lean(),
+      FCMToken.find({ userId: { $in: userIds }, muted: { $ne: true } }).sort({ lastActive: -1 }).lean(),
+      WebPushService.getTargets(userIds),
+      NotificationCategoryService.get(category)
+    ]);
+
+    const preferencesByUser = new Map(preferences.map(p => [p.userId, p]));
+    const tokensByUser = new Map<string, Array<{ token: string; platform: string; categories?: string[] }>>();
+    for (const token of tokens) {
+      const userTokens = tokensByUser.get(token.userId) || [];
+      userTokens.push({ token: token.token, platform: token.platform, categories: token.categories });
+      tokensByUser.set(token.userId, userTokens);
+    }
+
+    const essential = NotificationCategoryService.isEssential(definition);
+    const mandatoryPush = definition?.mandatory.includes('push') === true;
+    const results = new Map<string, UserSendResult>();
+    const ready: ReadyUser[] = [];
+
+    // Preference, digest and quiet-hours decisions per user
+    await mapWithConcurrency(userIds, env.BATCH_SEND_CONCURRENCY, async userId => {
+      try {
+        // Users without stored preferences get the category defaults
+        const userPreferences = preferencesByUser.get(userId) || null;
+        if (!isChannelEnabled(userPreferences, definition, 'push') ||
+          (userPreferences && isDroppedByDnd(userPreferences, essential))) {
+          results.set(userId, { userId, status: 'skipped', sent: 0, failed: 0, reason: 'preferences' });
+          return;
+        }
+
+        const notificationId = randomUUID();
+        const held = await NotificationService.holdBack(
+          userId, 'push', notification, category, { notificationId }, userPreferences
+        );
+        if (held) {
+          results.set(userId, { userId, notificationId, ...toDispatchResult(held) });
+          return;
+        }
+
+        const allTokens = tokensByUser.get(userId) || [];
+        const allWebTargets = webTargetsByUser.get(userId) || [];
+        if (allTokens.length === 0 && allWebTargets.length === 0) {
+          results.set(userId, { userId, status: 'skipped', sent: 0, failed: 0, reason: 'no_tokens' });
+          return;
+        }
+
+        // Drop devices and platforms the user muted or limited to other categories
+        const platformRules = userPreferences?.platforms;
+        const userTokens = filterPushTokens(allTokens, category, mandatoryPush, platformRules)
+          .map(({ token, platform }) => ({ token, platform }));
+        const webTargets = isPushAllowed(platformRules?.web, category, mandatoryPush) ? allWebTargets : [];
+        if (userTokens.length === 0 && webTargets.length === 0) {
+          results.set(userId, { userId, status: 'skipped', sent: 0, failed: 0, reason: 'preferences' });
+          return;
+        }
+
+        ready.push({ userId, notificationId, tokens: userTokens, webTargets });
+      } catch (error: any) {
+        logger.error('Error preparing batch push for user', { userId, error: error.message });
+        results.set(userId, { userId, status: 'failed', reason: error.message });
+      }
+    });
+
+    // Badge from each user's unread count, unless they opted out of badge updates
+    const unreadCounts = await BadgeService.getUnreadCounts(ready.map(user => user.userId));
+    for (const user of ready) {
+      if (preferencesByUser.get(user.userId)?.badgeUpdates !== false) {
+        user.badge = unreadCounts.get(user.userId)! + (notification.badgeExtra || 0);
+      }
+    }
+
+    const [tokenOutcomes, webOutcomes] = await Promise.all([
+      this.multicast(ready, notification),
+      this.sendWebPush(ready, notification)
+    ]);
+
+    await this.recordResults(ready, tokenOutcomes, webOutcomes, notification, category, results);
+
+    return userIds.map(userId => results.get(userId)!);
+  }
+
+  /**
+   * Multicast the notification to every ready user's tokens, one message per
+   * badge value, in 500-token chunks with bounded concurrency
+   */
+  private static async multicast(
+    ready: ReadyUser[],
+    notification: Omit<NotificationPayload, 'userId'>
+  ): Promise<Map<string, TokenOutcome>> {
+    const env = getEnv();
+    const outcomes = new Map<string, TokenOutcome>();
+
+    const tokensByBadge = new Map<number | undefined, string[]>();
+    for (const user of ready) {
+      tokensByBadge.set(user.badge, [...(tokensByBadge.get(user.badge) || []), ...user.tokens.map(t => t.token)]);
+    }
+
+    const chunks: Array<{ tokens: string[]; message: BaseMessage }> = [];
+    for (const [badge, tokens] of tokensByBadge) {
+      const message = buildPushMessage(notification, { badge });
+      for (let i = 0; i < tokens.length; i += MULTICAST_CHUNK_SIZE) {
+        chunks.push({ tokens: tokens.slice(i, i + MULTICAST_CHUNK_SIZE), message });
+      }
+    }
+
+    await mapWithConcurrency(chunks, env.BATCH_SEND_CONCURRENCY, async ({ tokens: chunk, message }) => {
+      const outcome = await sendMulticast(chunk, message);
+      const retryable = new Set(outcome.retryableTokens);
+
+      if (outcome.error) {
+        for (const token of chunk) {
+          outcomes.set(token, {
+            success: false,
+            errorCode: outcome.error.code,
+            errorMessage: outcome.error.message,
+            retryable: retryable.has(token)
+          });
+        }
+        return;
+      }
+
+      for (const resp of outcome.responses) {
+        outcomes.set(resp.token, {
+          success: resp.success,
+          messageId: resp.messageId,
+          errorCode: resp.error?.code,
+          errorMessage: resp.error?.message,
+          retryable: retryable.has(resp.token)
+        });
+      }
+    });
+
+    return outcomes;
+  }
+
+  /**
+   * Send to every ready user's browser subscriptions with bounded concurrency.
+   * Payloads are encrypted per subscription, so there is no multicast.
+   */
+  private static async sendWebPush(
+    ready: ReadyUser[],
+    notification: Omit<NotificationPayload, 'userId'>
+  ): Promise<Map<string, IDeliveryOutcome[]>> {
+    const env = getEnv();
+    const outcomes = new Map<string, IDeliveryOutcome[]>();
+
+    await mapWithConcurrency(ready.filter(user => user.webTargets.length > 0), env.BATCH_SEND_CONCURRENCY, async user => {
+      outcomes.set(user.userId, await sendWebPush(
+        user.webTargets,
+        buildWebPushPayload(notification, { badge: user.badge }),
+        notification
+      ));
+    });
+
+    return outcomes;
+  }
+
+  /**
+   * Log per-user deliveries, queue transient failures for retry and fill in results
+   */
+  private static async recordResults(
+    ready: ReadyUser[],
+    tokenOutcomes: Map<string, TokenOutcome>,
+    webOutcomes: Map<string, IDeliveryOutcome[]>,
+    notification: Omit<NotificationPayload, 'userId'>,
+    category: keyof INotificationPreferences,
+    results: Map<string, UserSendResult>
+  ): Promise<void> {
+    const records: DeliveryRecord[] = [];
+
+    for (const user of ready) {
+      const outcomes: IDeliveryOutcome[] = user.tokens.map(({ token, platform }) => {
+        const { retryable: _retryable, ...outcome } = tokenOutcomes.get(token) ||
+          { success: false, errorMessage: 'No response from FCM', retryable: false };
+        return { target: token, platform, ...outcome };
+      });
+      outcomes.push(...(webOutcomes.get(user.userId) || []));
+      const retryableTokens = user.tokens
+        .map(t => t.token)
+        .filter(token => tokenOutcomes.get(token)?.retryable);
+      const sent = outcomes.filter(o => o.success).length;
+
+      records.push({
+        notificationId: user.notificationId,
+        userId: user.userId,
+        channel: 'push',
+        category,
+        type: notification.type,
+        title: notification.title,
+        outcomes,
+        queued: retryableTokens.length
+      });
+
+      if (retryableTokens.length > 0) {
+        try {
+          await QueueService.enqueue(
+            'push',
+            {
+              notificationId: user.notificationId,
+              userId: user.userId,
+              category,
+              type: notification.type,
+              title: notification.title,
+              tokens: retryableTokens,
+              message: buildPushMessage(notification, { badge: user.badge })
+            },
+            { delayMs: QueueService.computeBackoffMs(1) }
+          );
+        } catch (error: any) {
+          logger.error('Error queueing batch push retry', { userId: user.userId, error: error.message });
+        }
+      }
+
+      const status: ChannelDispatchResult['status'] = sent > 0 ? 'sent' : retryableTokens.length > 0 ? 'queued' : 'failed';
+      results.set(user.userId, {
+        userId: user.userId,
+        notificationId: user.notificationId,
+        status,
+        sent,
+        failed: outcomes.length - sent,
+        ...(retryableTokens.length > 0 && { queued: retryableTokens.length })
+      });
+    }
+
+    await DeliveryLogService.recordMany(records);
+  }
+
+  /**
+   * Send the same SMS to many users with bounded concurrency
+   */
+  static async sendSms(
+    userIds: string[],
+    notification: Omit<NotificationPayload, 'userId'>
+  ): Promise<BatchChannelResult> {
+    const env = getEnv();
+    const uniqueUserIds = Array.from(new Set(userIds));
+
+    const results = await mapWithConcurrency(uniqueUserIds, env.BATCH_SEND_CONCURRENCY, async userId => {
+      try {
+        const result = await NotificationService.sendSmsNotification(userId, notification);
+        return { userId, notificationId: result.notificationId, ...toDispatchResult(result) };
+      } catch (error: any) {
+        logger.error('Error sending SMS to user', { userId, error: error.message });
+        return { userId, status: 'failed' as const, sent: 0, failed: 1, reason: error.message };
+      }
+    });
+
+    return summarize(results);
+  }
+}
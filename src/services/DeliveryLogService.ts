@@ -0,0 +1,161 @@
+import logger from '../config/logger';
+import { getEnv } from '../config/env';
+import NotificationDelivery, {
+  DeliveryStatus,
+  IDeliveryOutcome,
+  INotificationDeliveryDocument
+} from '../models/NotificationDelivery';
+import { NotificationChannel } from '../types';
+import { MulticastOutcome } from './push/fcm';
+
+export interface DeliveryRecord {
+  notificationId: string;
+  userId: string;
+  channel: NotificationChannel;
+  category?: string;
+  type: string;
+  title?: string;
+  attempt?: number;
+  jobId?: string;
+  outcomes: IDeliveryOutcome[];
+  queued?: number;
+}
+
+export interface DeliveryQuery {
+  userId?: string;
+  type?: string;
+  channel?: string;
+  category?: string;
+  status?: string;
+  from?: Date;
+  to?: Date;
+  limit: number;
+  skip: number;
+}
+
+function deriveStatus(outcomes: IDeliveryOutcome[], queued: number): DeliveryStatus {
+  const succeeded = outcomes.filter(o => o.success).length;
+  if (succeeded > 0 && succeeded === outcomes.length) {
+    return 'sent';
+  }
+  if (succeeded > 0) {
+    return 'partial';
+  }
+  return queued > 0 ? 'queued' : 'failed';
+}
+
+export class DeliveryLogService {
+  /**
+   * Record the outcome of a delivery attempt. Logging failures never
+   * interrupt sending; they are only reported to the application log.
+   */
+  static async record(entry: DeliveryRecord): Promise<void> {
+    await this.recordMany([entry]);
+  }
+
+  /**
+   * Record several delivery attempts in one write (batch sends)
+   */
+  static async recordMany(entries: DeliveryRecord[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    try {
+      const env = getEnv();
+      const expiresAt = new Date(Date.now() + env.DELIVERY_LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+      await NotificationDelivery.insertMany(entries.map(entry => ({
+        notificationId: entry.notificationId,
+        userId: entry.userId,
+        channel: entry.channel,
+        category: entry.category,
+        type: entry.type,
+        title: entry.title,
+        status: deriveStatus(entry.outcomes, entry.queued || 0),
+        attempt: entry.attempt || 1,
+        jobId: entry.jobId,
+        outcomes: entry.outcomes,
+        sentAt: new Date(),
+        expiresAt
+      })), { ordered: false });
+    } catch (error: any) {
+      logger.error('Error recording notification delivery:', {
+        count: entries.length,
+        notificationId: entries[0].notificationId,
+        userId: entries[0].userId,
+        channel: entries[0].channel,
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * Convert an FCM multicast outcome into per-token delivery outcomes
+   */
+  static toPushOutcomes(
+    outcome: MulticastOutcome,
+    tokens: Array<{ token: string; platform?: string }>
+  ): IDeliveryOutcome[] {
+    const platforms = new Map(tokens.map(t => [t.token, t.platform]));
+
+    if (outcome.error) {
+      return tokens.map(t => ({
+        target: t.token,
+        platform: t.platform,
+        success: false,
+        errorCode: outcome.error!.code,
+        errorMessage: outcome.error!.message
+      }));
+    }
+
+    return outcome.responses.map(resp => ({
+      target: resp.token,
+      platform: platforms.get(resp.token),
+      success: resp.success,
+      messageId: resp.messageId,
+      errorCode: resp.error?.code,
+      errorMessage: resp.error?.message
+    }));
+  }
+
+  /**
+   * Query delivery records, most recent first
+   */
+  static async query(filters: DeliveryQuery): Promise<{
+    deliveries: INotificationDeliveryDocument[];
+    total: number;
+  }> {
+    const query: Record<string, any> = {};
+
+    if (filters.userId) query.userId = filters.userId;
+    if (filters.type) query.type = filters.type;
+    if (filters.channel) query.channel = filters.channel;
+    if (filters.category) query.category = filters.category;
+    if (filters.status) query.status = filters.status;
+
+    if (filters.from || filters.to) {
+      query.sentAt = {};
+      if (filters.from) query.sentAt.$gte = filters.from;
+      if (filters.to) query.sentAt.$lte = filters.to;
+    }
+
+    const [deliveries, total] = await Promise.all([
+      NotificationDelivery.find(query).sort({ sentAt: -1 }).skip(filters.skip).limit(filters.limit).lean(),
+      NotificationDelivery.countDocuments(query)
+    ]);
+
+    return { deliveries: deliveries as unknown as INotificationDeliveryDocument[], total };
+  }
+
+  /**
+   * Get every delivery record (all channels and retry attempts) for a notification
+   */
+  static async getByNotificationId(notificationId: string): Promise<INotificationDeliveryDocument[]> {
+    const deliveries = await NotificationDelivery
+      .find({ notificationId })
+      .sort({ sentAt: 1 })
+      .lean();
+    return deliveries as unknown as INotificationDeliveryDocument[];
+  }
+}
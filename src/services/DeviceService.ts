@@ -0,0 +1,207 @@
+import mongoose from 'mongoose';
+import logger from '../config/logger';
+import FCMToken, { IFCMTokenDocument } from '../models/FCMToken';
+import TokenAuditLog, { ITokenAuditLogDocument } from '../models/TokenAuditLog';
+import { BadRequestError, NotFoundError } from '../errors/AppError';
+import { TopicService } from './TopicService';
+import { isValidTimezone } from './quietHours';
+import { validateCategoryList } from './push/pushTargets';
+import { NotificationCategoryService } from './NotificationCategoryService';
+
+const MAX_DEVICE_NAME_LENGTH = 64;
+const MAX_VERSION_LENGTH = 32;
+const LOCALE_PATTERN = /^[A-Za-z]{2,3}(?:[-_][A-Za-z0-9]{2,8})*$/;
+const AUDIT_RETENTION_MS = 365 * 24 * 60 * 60 * 1000;
+
+export interface DeviceInfo {
+  deviceName?: string;
+  appVersion?: string;
+  osVersion?: string;
+  locale?: string;
+  timezone?: string;
+}
+
+export interface DeviceUpdate {
+  deviceName?: string | null;
+  muted?: boolean;
+  categories?: string[] | null; // null clears the limit
+}
+
+function parseText(input: Record<string, unknown>, field: keyof DeviceInfo, maxLength: number): string | undefined {
+  const value = input[field];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string' || value.trim().length > maxLength) {
+    throw new BadRequestError(`${field} must be a string of at most ${maxLength} characters`);
+  }
+  return value.trim() || undefined;
+}
+
+export class DeviceService {
+  /**
+   * Validate the optional device details sent with a token registration
+   */
+  static parseDeviceInfo(input: Record<string, unknown>): DeviceInfo {
+    const info: DeviceInfo = {
+      deviceName: parseText(input, 'deviceName', MAX_DEVICE_NAME_LENGTH),
+      appVersion: parseText(input, 'appVersion', MAX_VERSION_LENGTH),
+      osVersion: parseText(input, 'osVersion', MAX_VERSION_LENGTH)
+    };
+
+    const locale = parseText(input, 'locale', MAX_VERSION_LENGTH);
+    if (locale !== undefined) {
+      if (!LOCALE_PATTERN.test(locale)) {
+        throw new BadRequestError('locale must be a language tag, e.g. "en-IN"');
+      }
+      info.locale = locale.replace(/_/g, '-');
+    }
+
+    const timezone = parseText(input, 'timezone', MAX_VERSION_LENGTH * 2);
+    if (timezone !== undefined) {
+      if (!isValidTimezone(timezone)) {
+        throw new BadRequestError('timezone must be a valid IANA timezone, e.g. "Asia/Kolkata"');
+      }
+      info.timezone = timezone;
+    }
+
+    // Drop fields that were not sent so they don't overwrite stored values
+    return Object.fromEntries(
+      Object.entries(info).filter(([, value]) => value !== undefined)
+    ) as DeviceInfo;
+  }
+
+  /**
+   * Device details after a re-registration: sent fields replace stored ones
+   */
+  static mergeDeviceInfo(current: DeviceInfo, update: DeviceInfo): DeviceInfo {
+    return {
+      deviceName: update.deviceName || current.deviceName,
+      appVersion: update.appVersion || current.appVersion,
+      osVersion: update.osVersion || current.osVersion,
+      locale: update.locale || current.locale,
+      timezone: update.timezone || current.timezone
+    };
+  }
+
+  /**
+   * Record a token moving from one account to another (shared device, or a
+   * logout followed by a login as someone else). Best-effort: failures are logged.
+   */
+  static async recordReassignment(
+    token: IFCMTokenDocument,
+    previous: { userId: string; deviceId?: string },
+    context: { source?: string; userAgent?: string }
+  ): Promise<void> {
+    try {
+      await TokenAuditLog.create({
+        action: 'reassigned',
+        tokenSuffix: token.token.slice(-8),
+        platform: token.platform,
+        fromUserId: previous.userId,
+        toUserId: token.userId,
+        previousDeviceId: previous.deviceId,
+        deviceId: token.deviceId,
+        source: context.source,
+        userAgent: context.userAgent,
+        expiresAt: new Date(Date.now() + AUDIT_RETENTION_MS)
+      });
+    } catch (error: any) {
+      logger.error('Error recording token reassignment:', { error: error.message });
+    }
+  }
+
+  /**
+   * List token audit entries, most recent first, optionally for one user
+   * (as either the previous or the new owner)
+   */
+  static async listAudit(options: { userId?: string; limit: number; skip: number }): Promise<{
+    entries: ITokenAuditLogDocument[];
+    total: number;
+  }> {
+    const query = options.userId
+      ? { $or: [{ fromUserId: options.userId }, { toUserId: options.userId }] }
+      : {};
+
+    const [entries, total] = await Promise.all([
+      TokenAuditLog.find(query).sort({ createdAt: -1 }).skip(options.skip).limit(options.limit).lean(),
+      TokenAuditLog.countDocuments(query)
+    ]);
+
+    return { entries: entries as unknown as ITokenAuditLogDocument[], total };
+  }
+
+  /**
+   * Find a device owned by the user. Another user's device is reported as not
+   * found so ids cannot be probed.
+   */
+  private static async findOwned(userId: string, id: string): Promise<IFCMTokenDocument> {
+    const device = mongoose.isValidObjectId(id) ? await FCMToken.findOne({ _id: id, userId }) : null;
+    if (!device) {
+      throw new NotFoundError('Device not found');
+    }
+    return device;
+  }
+
+  /**
+   * List a user's registered devices, most recently active first
+   */
+  static async list(userId: string): Promise<IFCMTokenDocument[]> {
+    return FCMToken.find({ userId }).sort({ lastActive: -1 });
+  }
+
+  /**
+   * Rename, mute/unmute or limit the categories of one of the user's devices.
+   * Muting also takes the device out of the user's topic subscriptions;
+   * unmuting restores them.
+   */
+  static async update(userId: string, id: string, update: DeviceUpdate): Promise<IFCMTokenDocument> {
+    if (update.muted !== undefined && typeof update.muted !== 'boolean') {
+      throw new BadRequestError('muted must be a boolean');
+    }
+    if (update.deviceName === undefined && update.muted === undefined && update.categories === undefined) {
+      throw new BadRequestError('deviceName, muted or categories is required');
+    }
+    const categories = update.categories !== undefined
+      ? validateCategoryList(update.categories, 'categories', await NotificationCategoryService.getAll())
+      : undefined;
+
+    const device = await this.findOwned(userId, id);
+
+    if (update.deviceName !== undefined) {
+      // null (or an empty name) clears the name
+      device.deviceName = this.parseDeviceInfo({ deviceName: update.deviceName }).deviceName;
+    }
+
+    if (update.categories !== undefined) {
+      device.categories = categories;
+    }
+
+    const muteChanged = update.muted !== undefined && update.muted !== device.muted;
+    if (update.muted !== undefined) {
+      device.muted = update.muted;
+    }
+    await device.save();
+
+    if (muteChanged) {
+      if (device.muted) {
+        await TopicService.releaseToken(userId, device.token);
+      } else {
+        await TopicService.syncToken(userId, device.token);
+      }
+      logger.info(`${device.muted ? 'Muted' : 'Unmuted'} device ${device._id} for user: ${userId}`);
+    }
+
+    return device;
+  }
+
+  /**
+   * Unregister one of the user's devices
+   */
+  static async remove(userId: string, id: string): Promise<void> {
+    const device = await this.findOwned(userId, id);
+    await device.deleteOne();
+    await TopicService.releaseToken(userId, device.token);
+    logger.info(`Removed device ${device._id} for user: ${userId}`);
+  }
+}
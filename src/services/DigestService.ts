@@ -0,0 +1,300 @@
+import logger from '../config/logger';
+import { getEnv } from '../config/env';
+import { DEFAULT_DIGEST_RULES, DIGEST_MAX_ITEMS } from '../config/digest';
+import DigestBucket, { IDigestBucketDocument, IDigestItem } from '../models/DigestBucket';
+import { BadRequestError } from '../errors/AppError';
+import {
+  DigestChannel,
+  DigestRule,
+  DigestSettings,
+  NotificationCategoryDefinition,
+  NotificationPayload,
+  NotificationPreferences
+} from '../types';
+import { NotificationService } from './NotificationService';
+import { NotificationCategoryService } from './NotificationCategoryService';
+
+const DIGEST_CHANNELS: DigestChannel[] = ['push', 'email', 'in_app'];
+const MAX_WINDOW_MINUTES = 7 * 24 * 60;
+const SENT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const PUSH_LISTED_ITEMS = 3;
+
+export class DigestService {
+  private static timer: NodeJS.Timeout | null = null;
+  private static stopped = true;
+
+  /**
+   * Merge a user's digest overrides over the default rules
+   */
+  static resolveRules(overrides?: DigestSettings | null): DigestSettings {
+    const rules: DigestSettings = { ...DEFAULT_DIGEST_RULES };
+    for (const [category, rule] of Object.entries(overrides || {})) {
+      const base = rules[category as keyof NotificationPreferences];
+      rules[category as keyof NotificationPreferences] = { ...base, ...rule } as DigestRule;
+    }
+    return rules;
+  }
+
+  /**
+   * Validate a digest preferences update against the user's current rules,
+   * throwing BadRequestError on problems
+   */
+  static validateRules(
+    input: any,
+    current: DigestSettings,
+    categories: Map<string, NotificationCategoryDefinition>
+  ): DigestSettings {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      throw new BadRequestError('digest must be an object keyed by category');
+    }
+
+    const rules: DigestSettings = {};
+    for (const [category, value] of Object.entries<any>(input)) {
+      if (!categories.has(category)) {
+        throw new BadRequestError(`Unknown digest category "${category}"`);
+      }
+      if (NotificationCategoryService.isEssential(categories.get(category))) {
+        throw new BadRequestError(`${category} notifications have mandatory channels and cannot be digested`);
+      }
+      if (!value || typeof value !== 'object') {
+        throw new BadRequestError(`digest.${category} must be an object`);
+      }
+
+      const rule = { enabled: false, channel: 'push', windowMinutes: 5, ...current[category as keyof NotificationPreferences], ...value };
+
+      if (typeof rule.enabled !== 'boolean') {
+        throw new BadRequestError(`digest.${category}.enabled must be a boolean`);
+      }
+      if (!DIGEST_CHANNELS.includes(rule.channel)) {
+        throw new BadRequestError(`digest.${category}.channel must be one of: ${DIGEST_CHANNELS.join(', ')}`);
+      }
+      if (!Number.isInteger(rule.windowMinutes) || rule.windowMinutes < 1 || rule.windowMinutes > MAX_WINDOW_MINUTES) {
+        throw new BadRequestError(`digest.${category}.windowMinutes must be between 1 and ${MAX_WINDOW_MINUTES}`);
+      }
+
+      rules[category as keyof NotificationPreferences] = {
+        enabled: rule.enabled,
+        channel: rule.channel,
+        windowMinutes: rule.windowMinutes
+      };
+    }
+
+    return rules;
+  }
+
+  /**
+   * Add a notification to the user's open digest for a category, opening a new
+   * one (sent `windowMinutes` from now) when there is none
+   */
+  static async collect(
+    userId: string,
+    category: keyof NotificationPreferences,
+    rule: DigestRule,
+    item: Omit<IDigestItem, 'createdAt'>
+  ): Promise<IDigestBucketDocument> {
+    const update = {
+      $push: { items: { $each: [{ ...item, createdAt: new Date() }], $slice: -DIGEST_MAX_ITEMS } },
+      $inc: { count: 1 },
+      $setOnInsert: { flushAt: new Date(Date.now() + rule.windowMinutes * 60 * 1000) }
+    };
+
+    try {
+      return (await DigestBucket.findOneAndUpdate(
+        { userId, category, channel: rule.channel, status: 'open' },
+        update,
+        { upsert: true, new: true }
+      ))!;
+    } catch (error: any) {
+      // Two upserts raced to open the bucket; the other one won, so add to it
+      if (error.code !== 11000) {
+        throw error;
+      }
+      return (await DigestBucket.findOneAndUpdate(
+        { userId, category, channel: rule.channel, status: 'open' },
+        update,
+        { new: true }
+      ))!;
+    }
+  }
+
+  /**
+   * Build the summary notification for a digest
+   */
+  private static summarize(bucket: IDigestBucketDocument, label?: string): Omit<NotificationPayload, 'userId'> {
+    const category = bucket.category as keyof NotificationPreferences;
+    const newest = [...bucket.items].reverse();
+    const title = `${bucket.count} new ${label || 'notifications'}`;
+
+    if (bucket.channel === 'email') {
+      const more = bucket.count - newest.length;
+      return {
+        type: 'digest',
+        title,
+        body: newest.map(item => `${item.title}\n${item.body}`).join('\n\n') +
+          (more > 0 ? `\n\n…and ${more} more` : ''),
+        category
+      };
+    }
+
+    const listed = newest.slice(0, PUSH_LISTED_ITEMS);
+    const more = bucket.count - listed.length;
+    const body = listed.map(item => item.title).join(', ') + (more > 0 ? ` and ${more} more` : '');
+
+    return {
+      type: 'digest',
+      title,
+      body,
+      category,
+      // FCM data values must be strings; the in-app inbox can hold the full list
+      data: bucket.channel === 'push'
+        ? { digest: 'true', category, count: String(bucket.count) }
+        : {
+          eventType: 'digest',
+          count: bucket.count,
+          items: newest.map(({ notificationId, type, title, body, data, createdAt }) =>
+            ({ notificationId, type, title, body, data, createdAt }))
+        }
+    };
+  }
+
+  /**
+   * Send a digest: the original notification when only one was collected,
+   * otherwise a summary with the count and list
+   */
+  private static async send(bucket: IDigestBucketDocument): Promise<Record<string, any>> {
+    const category = bucket.category as keyof NotificationPreferences;
+    const single = bucket.count === 1 ? bucket.items[0] : undefined;
+    const notification = single
+      ? { type: single.type, title: single.title, body: single.body, data: single.data, email: single.email, ...single.push, category }
+      : this.summarize(bucket, (await NotificationCategoryService.get(category))?.label);
+    const options = { skipDigest: true, notificationId: single?.notificationId };
+
+    switch (bucket.channel) {
+      case 'push':
+        return NotificationService.sendPushNotification(bucket.userId, notification, options);
+      case 'email':
+        return NotificationService.sendEmailNotification(bucket.userId, notification, options);
+      case 'in_app': {
+        const { notification: created, held } = await NotificationService.createInAppNotification({
+          userId: bucket.userId,
+          title: notification.title,
+          body: notification.body,
+          type: single ? (single.type as any) : 'info',
+          category,
+          data: notification.data
+        }, options);
+        return held || { notificationId: String(created._id) };
+      }
+    }
+  }
+
+  /**
+   * Atomically claim the next due digest. Digests stuck in processing longer
+   * than the lock timeout (e.g. after a crash) are claimed again.
+   */
+  private static async claimNext(): Promise<IDigestBucketDocument | null> {
+    const env = getEnv();
+    const now = new Date();
+
+    return DigestBucket.findOneAndUpdate(
+      {
+        $or: [
+          { status: 'open', flushAt: { $lte: now } },
+          { status: 'processing', lockedAt: { $lte: new Date(now.getTime() - env.QUEUE_LOCK_TIMEOUT_MS) } }
+        ]
+      },
+      { $set: { status: 'processing', lockedAt: now } },
+      { sort: { flushAt: 1 }, new: true }
+    );
+  }
+
+  /**
+   * Send up to DIGEST_BATCH_SIZE due digests. Returns the number processed.
+   */
+  static async processDue(): Promise<number> {
+    const env = getEnv();
+    let processed = 0;
+
+    while (processed < env.DIGEST_BATCH_SIZE) {
+      const bucket = await this.claimNext();
+      if (!bucket) {
+        break;
+      }
+
+      try {
+        const result = await this.send(bucket);
+        await DigestBucket.updateOne(
+          { _id: bucket._id },
+          {
+            $set: {
+              status: 'sent',
+              sentAt: new Date(),
+              result,
+              expiresAt: new Date(Date.now() + SENT_RETENTION_MS)
+            },
+            $unset: { lockedAt: 1 }
+          }
+        );
+        logger.info(`Sent ${bucket.channel} digest ${bucket._id}`, {
+          userId: bucket.userId,
+          category: bucket.category,
+          count: bucket.count
+        });
+      } catch (error: any) {
+        await DigestBucket.updateOne(
+          { _id: bucket._id },
+          {
+            $set: {
+              status: 'failed',
+              error: error.message,
+              expiresAt: new Date(Date.now() + SENT_RETENTION_MS)
+            },
+            $unset: { lockedAt: 1 }
+          }
+        );
+        logger.error(`Failed to send digest ${bucket._id}:`, error);
+      }
+
+      processed++;
+    }
+
+    return processed;
+  }
+
+  /**
+   * Start the digest flush loop
+   */
+  static start(): void {
+    const env = getEnv();
+    if (!env.DIGEST_ENABLED || !this.stopped) {
+      return;
+    }
+
+    this.stopped = false;
+
+    const tick = async () => {
+      try {
+        await this.processDue();
+      } catch (error) {
+        logger.error('Digest tick failed:', error);
+      }
+      if (!this.stopped) {
+        this.timer = setTimeout(tick, env.DIGEST_POLL_INTERVAL_MS);
+      }
+    };
+
+    this.timer = setTimeout(tick, env.DIGEST_POLL_INTERVAL_MS);
+    logger.info('🗞️ Digest worker started');
+  }
+
+  /**
+   * Stop the digest flush loop
+   */
+  static stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
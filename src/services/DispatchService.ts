@@ -0,0 +1,131 @@
+import { randomUUID } from 'crypto';
+import logger from '../config/logger';
+import { NotificationService } from './NotificationService';
+import {
+  ChannelDispatchResult,
+  ChannelSendResult,
+  DispatchRequest,
+  NotificationChannel,
+  UserDispatchResult
+} from '../types';
+
+export const ALL_CHANNELS: NotificationChannel[] = ['push', 'in_app', 'email', 'sms'];
+
+export function toDispatchResult(result: ChannelSendResult): ChannelDispatchResult {
+  if (result.skipped) {
+    return { status: 'skipped', sent: 0, failed: 0, reason: result.skipped };
+  }
+  if (result.deferredUntil) {
+    return { status: 'deferred', sent: 0, failed: 0, reason: result.deferredReason, deferredUntil: result.deferredUntil };
+  }
+  return {
+    status: result.sent > 0 ? 'sent' : result.queued ? 'queued' : 'failed',
+    sent: result.sent,
+    failed: result.failed,
+    ...(result.queued && { queued: result.queued })
+  };
+}
+
+export class DispatchService {
+  /**
+   * Fan a single notification out to every requested channel for every user.
+   * Preferences are consulted once per user and channel; in-app notifications
+   * have no preference flag and are always delivered when requested.
+   */
+  static async dispatch(request: DispatchRequest): Promise<{
+    results: UserDispatchResult[];
+    summary: Record<NotificationChannel, { sent: number; queued: number; deferred: number; skipped: number; failed: number }>;
+  }> {
+    const channels = request.channels === 'all' ? ALL_CHANNELS : request.channels;
+    const category = request.category || 'taskUpdates';
+
+    const summary = ALL_CHANNELS.reduce((acc, channel) => {
+      acc[channel] = { sent: 0, queued: 0, deferred: 0, skipped: 0, failed: 0 };
+      return acc;
+    }, {} as Record<NotificationChannel, { sent: number; queued: number; deferred: number; skipped: number; failed: number }>);
+
+    const results: UserDispatchResult[] = [];
+
+    for (const userId of request.userIds) {
+      // One notification id per user so every channel shows up together in the delivery log
+      const userResult: UserDispatchResult = { userId, notificationId: randomUUID(), channels: {} };
+
+      const sendToChannel = async (channel: NotificationChannel) => {
+        try {
+          userResult.channels[channel] = await this.dispatchToChannel(userId, channel, category, request, userResult.notificationId);
+        } catch (error: any) {
+          logger.error('Error dispatching notification', { userId, channel, error: error.message });
+          userResult.channels[channel] = { status: 'failed', reason: error.message };
+        }
+        summary[channel][userResult.channels[channel]!.status]++;
+      };
+
+      // In-app first so the push badge counts the new in-app notification
+      if (channels.includes('in_app')) {
+        await sendToChannel('in_app');
+      }
+      await Promise.all(channels.filter(channel => channel !== 'in_app').map(sendToChannel));
+
+      results.push(userResult);
+    }
+
+    logger.info('Dispatched notification', {
+      type: request.type,
+      category,
+      users: request.userIds.length,
+      channels
+    });
+
+    return { results, summary };
+  }
+
+  private static async dispatchToChannel(
+    userId: string,
+    channel: NotificationChannel,
+    category: NonNullable<DispatchRequest['category']>,
+    request: DispatchRequest,
+    notificationId: string
+  ): Promise<ChannelDispatchResult> {
+    const notification = {
+      type: request.type,
+      title: request.title,
+      body: request.body,
+      data: request.data,
+      category,
+      ...request.push,
+      email: request.email,
+      sms: request.sms
+    };
+
+    if (channel === 'in_app') {
+      const { notification: created, held } = await NotificationService.createInAppNotification({
+        userId,
+        title: request.title,
+        body: request.body,
+        type: request.inApp?.type || 'info',
+        category,
+        data: { eventType: request.type, ...(request.data || {}) }
+      }, { notificationId });
+      if (held) {
+        return toDispatchResult(held);
+      }
+      return { status: 'sent', sent: 1, failed: 0, notificationId: String(created._id) };
+    }
+
+    const allowed = await NotificationService.shouldSendNotification(userId, category, channel);
+    if (!allowed) {
+      return { status: 'skipped', sent: 0, failed: 0, reason: 'preferences' };
+    }
+
+    const options = { skipPreferenceCheck: true, notificationId };
+
+    switch (channel) {
+      case 'push':
+        return toDispatchResult(await NotificationService.sendPushNotification(userId, notification, options));
+      case 'email':
+        return toDispatchResult(await NotificationService.sendEmailNotification(userId, notification, options));
+      case 'sms':
+        return toDispatchResult(await NotificationService.sendSmsNotification(userId, notification, options));
+    }
+  }
+}
@@ -0,0 +1,317 @@
+import mongoose from 'mongoose';
+import logger from '../config/logger';
+import KeywordAlert, { IKeywordAlertDocument } from '../models/KeywordAlert';
+import { BadRequestError, NotFoundError } from '../errors/AppError';
+import { NotificationService } from './NotificationService';
+
+const MAX_ALERTS_PER_USER = 20;
+const MAX_KEYWORDS_PER_ALERT = 10;
+const MAX_CATEGORIES_PER_ALERT = 10;
+const DEFAULT_RADIUS_KM = 10;
+const MAX_RADIUS_KM = 500;
+const EARTH_RADIUS_KM = 6371;
+
+const STOPWORDS = new Set(['a', 'an', 'and', 'at', 'for', 'in', 'of', 'on', 'or', 'the', 'to', 'with']);
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface KeywordAlertInput {
+  keywords?: string[];
+  categories?: string[];
+  location?: GeoPoint | null;
+  radiusKm?: number;
+  active?: boolean;
+}
+
+export interface TaskForMatching {
+  id: string;
+  title: string;
+  description?: string;
+  category?: string;
+  location?: GeoPoint;
+  posterId?: string; // Never alerted about their own task
+}
+
+export interface KeywordMatch {
+  userId: string;
+  alertId: string;
+  keyword?: string;
+  distanceKm?: number;
+}
+
+/**
+ * Lowercase, strip accents and split text into word tokens, dropping stopwords
+ */
+export function tokenize(text: string): string[] {
+  return (text || '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token));
+}
+
+/**
+ * Great-circle distance between two points in kilometres
+ */
+export function haversineKm(a: GeoPoint, b: GeoPoint): number {
+  const toRad = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+function parseLocation(location: any, field: string): GeoPoint {
+  const lat = Number(location?.lat);
+  const lng = Number(location?.lng);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    throw new BadRequestError(`${field} must be { "lat": -90..90, "lng": -180..180 }`);
+  }
+  return { lat, lng };
+}
+
+export class KeywordAlertService {
+  /**
+   * Validate and normalize alert input into document fields
+   */
+  private static toDocument(input: KeywordAlertInput, existing?: IKeywordAlertDocument): Record<string, any> {
+    const doc: Record<string, any> = {};
+
+    if (input.keywords !== undefined) {
+      if (!Array.isArray(input.keywords) || input.keywords.length > MAX_KEYWORDS_PER_ALERT) {
+        throw new BadRequestError(`keywords must be an array of at most ${MAX_KEYWORDS_PER_ALERT} phrases`);
+      }
+      // Keep each phrase as its normalized tokens so "House-Cleaning" matches "house cleaning"
+      const keywords = Array.from(new Set(
+        input.keywords.map(keyword => tokenize(String(keyword)).join(' ')).filter(Boolean)
+      ));
+      doc.keywords = keywords;
+      doc.keywordTokens = Array.from(new Set(keywords.flatMap(keyword => keyword.split(' '))));
+    }
+
+    if (input.categories !== undefined) {
+      if (!Array.isArray(input.categories) || input.categories.length > MAX_CATEGORIES_PER_ALERT) {
+        throw new BadRequestError(`categories must be an array of at most ${MAX_CATEGORIES_PER_ALERT} categories`);
+      }
+      doc.categories = Array.from(new Set(
+        input.categories.map(category => String(category).trim().toLowerCase()).filter(Boolean)
+      ));
+    }
+
+    if (input.location !== undefined) {
+      if (input.location === null) {
+        doc.location = undefined;
+      } else {
+        const point = parseLocation(input.location, 'location');
+        doc.location = { type: 'Point', coordinates: [point.lng, point.lat] };
+      }
+    }
+
+    if (input.radiusKm !== undefined) {
+      const radiusKm = Number(input.radiusKm);
+      if (!Number.isFinite(radiusKm) || radiusKm <= 0 || radiusKm > MAX_RADIUS_KM) {
+        throw new BadRequestError(`radiusKm must be between 0 and ${MAX_RADIUS_KM}`);
+      }
+      doc.radiusKm = radiusKm;
+    }
+
+    if (input.active !== undefined) {
+      doc.active = input.active === true;
+    }
+
+    const keywords = doc.keywords ?? existing?.keywords ?? [];
+    const categories = doc.categories ?? existing?.categories ?? [];
+    if (keywords.length === 0 && categories.length === 0) {
+      throw new BadRequestError('An alert needs at least one keyword or category');
+    }
+
+    return doc;
+  }
+
+  /**
+   * List a user's keyword alerts
+   */
+  static async list(userId: string): Promise<IKeywordAlertDocument[]> {
+    return KeywordAlert.find({ userId }).sort({ createdAt: -1 });
+  }
+
+  /**
+   * Create a keyword alert for a user
+   */
+  static async create(userId: string, input: KeywordAlertInput): Promise<IKeywordAlertDocument> {
+    const count = await KeywordAlert.countDocuments({ userId });
+    if (count >= MAX_ALERTS_PER_USER) {
+      throw new BadRequestError(`A user can have at most ${MAX_ALERTS_PER_USER} keyword alerts`);
+    }
+
+    const doc = this.toDocument(input);
+    if (doc.location && doc.radiusKm === undefined) {
+      doc.radiusKm = DEFAULT_RADIUS_KM;
+    }
+
+    const alert = await KeywordAlert.create({ userId, ...doc });
+    logger.info(`Created keyword alert for user: ${userId}`, { alertId: alert._id, keywords: alert.keywords });
+    return alert;
+  }
+
+  /**
+   * Get one of a user's keyword alerts
+   */
+  static async get(userId: string, alertId: string): Promise<IKeywordAlertDocument> {
+    const alert = mongoose.isValidObjectId(alertId)
+      ? await KeywordAlert.findOne({ _id: alertId, userId })
+      : null;
+    if (!alert) {
+      throw new NotFoundError('Keyword alert not found');
+    }
+    return alert;
+  }
+
+  /**
+   * Update one of a user's keyword alerts
+   */
+  static async update(userId: string, alertId: string, input: KeywordAlertInput): Promise<IKeywordAlertDocument> {
+    const alert = await this.get(userId, alertId);
+    const doc = this.toDocument(input, alert);
+
+    alert.set(doc);
+    if (alert.location?.coordinates?.length && alert.radiusKm === undefined) {
+      alert.radiusKm = DEFAULT_RADIUS_KM;
+    }
+    await alert.save();
+
+    return alert;
+  }
+
+  /**
+   * Delete one of a user's keyword alerts
+   */
+  static async remove(userId: string, alertId: string): Promise<void> {
+    const alert = await this.get(userId, alertId);
+    await alert.deleteOne();
+  }
+
+  /**
+   * Find the alerts a new task matches, one match per user. An alert matches when
+   * every word of one of its keywords appears in the task title or description,
+   * the task is in one of its categories (if any), and the task lies within
+   * its radius (if it has a location).
+   */
+  static async match(task: TaskForMatching): Promise<KeywordMatch[]> {
+    const taskTokens = new Set(tokenize(`${task.title} ${task.description || ''}`));
+    const category = task.category?.trim().toLowerCase();
+    const taskLocation = task.location ? parseLocation(task.location, 'task.location') : undefined;
+
+    const candidates = await KeywordAlert.find({
+      active: true,
+      $or: [
+        { keywordTokens: { $in: Array.from(taskTokens) } },
+        ...(category ? [{ keywords: { $size: 0 }, categories: category }] : [])
+      ]
+    }).lean();
+
+    const matches = new Map<string, KeywordMatch>();
+
+    for (const alert of candidates) {
+      if (alert.userId === task.posterId || matches.has(alert.userId)) {
+        continue;
+      }
+
+      if (alert.categories.length > 0 && (!category || !alert.categories.includes(category))) {
+        continue;
+      }
+
+      const keyword = alert.keywords.find(phrase => phrase.split(' ').every(token => taskTokens.has(token)));
+      if (alert.keywords.length > 0 && !keyword) {
+        continue;
+      }
+
+      let distanceKm: number | undefined;
+      if (alert.location?.coordinates?.length) {
+        if (!taskLocation) {
+          continue;
+        }
+        const [lng, lat] = alert.location.coordinates;
+        distanceKm = haversineKm({ lat, lng }, taskLocation);
+        if (distanceKm > (alert.radiusKm ?? DEFAULT_RADIUS_KM)) {
+          continue;
+        }
+      }
+
+      matches.set(alert.userId, {
+        userId: alert.userId,
+        alertId: String(alert._id),
+        keyword,
+        distanceKm: distanceKm === undefined ? undefined : Math.round(distanceKm * 10) / 10
+      });
+    }
+
+    return Array.from(matches.values());
+  }
+
+  /**
+   * Match a new task against stored alerts and push it to every matching user.
+   * Delivery goes through the keywordTaskAlerts category, so users with
+   * keywordTaskAlerts.push disabled are skipped.
+   */
+  static async notifyMatches(task: TaskForMatching, options: { dryRun?: boolean } = {}): Promise<{
+    matched: number;
+    notified: number; // Sent, queued for retry, or held for quiet hours/digest
+    skipped: number;
+    failed: number;
+    matches: KeywordMatch[];
+  }> {
+    const matches = await this.match(task);
+    const summary = { matched: matches.length, notified: 0, skipped: 0, failed: 0, matches };
+
+    if (options.dryRun) {
+      return summary;
+    }
+
+    for (const match of matches) {
+      try {
+        const result = await NotificationService.sendPushNotification(match.userId, {
+          type: 'keyword_task_alert',
+          title: match.keyword ? `New task matching "${match.keyword}"` : 'New task for you',
+          body: task.title,
+          category: 'keywordTaskAlerts',
+          data: {
+            taskId: String(task.id),
+            alertId: match.alertId,
+            ...(match.keyword && { keyword: match.keyword })
+          }
+        });
+
+        if (result.skipped) {
+          summary.skipped++;
+        } else if (result.sent > 0 || result.queued || result.deferredUntil) {
+          summary.notified++;
+        } else {
+          summary.failed++;
+        }
+      } catch (error: any) {
+        summary.failed++;
+        logger.error('Error sending keyword task alert', { userId: match.userId, taskId: task.id, error: error.message });
+      }
+    }
+
+    await KeywordAlert.updateMany(
+      { _id: { $in: matches.map(match => match.alertId) } },
+      { lastMatchedAt: new Date() }
+    );
+
+    logger.info(`Matched task ${task.id} against keyword alerts`, {
+      matched: summary.matched,
+      notified: summary.notified,
+      skipped: summary.skipped,
+      failed: summary.failed
+    });
+
+    return summary;
+  }
+}
@@ -0,0 +1,334 @@
+import mongoose from 'mongoose';
+import logger from '../config/logger';
+import { getEnv } from '../config/env';
+import NotificationBatch, {
+  IBatchChannelProgress,
+  IBatchFailure,
+  INotificationBatchDocument,
+  NotificationBatchKind
+} from '../models/NotificationBatch';
+import { BadRequestError, ConflictError, NotFoundError } from '../errors/AppError';
+import { BatchChannelResult, InAppNotificationType, NotificationPayload } from '../types';
+import { NotificationService } from './NotificationService';
+
+const MAX_BATCH_USERS = 100000;
+const MAX_BATCH_FAILURES = 1000;
+const FINISHED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+const EMPTY_PROGRESS: IBatchChannelProgress = {
+  sent: 0,
+  queued: 0,
+  deferred: 0,
+  skipped: 0,
+  skippedByPreference: 0,
+  failed: 0
+};
+
+interface ChunkOutcome {
+  inc: Record<string, number>;
+  failures: IBatchFailure[];
+}
+
+function addChannelResult(outcome: ChunkOutcome, channel: string, result: BatchChannelResult): void {
+  for (const [status, count] of Object.entries(result.users)) {
+    outcome.inc[`progress.${channel}.${status}`] = count;
+  }
+  outcome.inc[`progress.${channel}.skippedByPreference`] =
+    result.results.filter(r => r.status === 'skipped' && r.reason === 'preferences').length;
+
+  for (const r of result.results) {
+    if (r.status === 'failed') {
+      outcome.failures.push({ userId: r.userId, channel, reason: r.reason });
+    }
+  }
+}
+
+export class NotificationBatchService {
+  private static timer: NodeJS.Timeout | null = null;
+  private static stopped = true;
+
+  /**
+   * Store a batch for the background worker. Returns immediately.
+   */
+  static async create(input: {
+    kind: NotificationBatchKind;
+    userIds: string[];
+    notification: Omit<NotificationPayload, 'userId'>;
+    channels: string[];
+    createdBy?: string;
+  }): Promise<INotificationBatchDocument> {
+    const userIds = Array.from(new Set(
+      input.userIds.filter(id => typeof id === 'string' && id.trim() !== '')
+    ));
+
+    if (userIds.length === 0) {
+      throw new BadRequestError('userIds must contain at least one user id');
+    }
+    if (userIds.length > MAX_BATCH_USERS) {
+      throw new BadRequestError(`A batch can target at most ${MAX_BATCH_USERS} users`);
+    }
+
+    const batch = await NotificationBatch.create({
+      kind: input.kind,
+      channels: input.channels,
+      userIds,
+      notification: input.notification,
+      total: userIds.length,
+      progress: Object.fromEntries(input.channels.map(channel => [channel, { ...EMPTY_PROGRESS }])),
+      createdBy: input.createdBy
+    });
+
+    logger.info(`Created ${input.kind} batch ${batch._id}`, {
+      users: userIds.length,
+      channels: input.channels,
+      createdBy: input.createdBy
+    });
+
+    return batch;
+  }
+
+  /**
+   * Get a batch with its progress (without the user list)
+   */
+  static async get(id: string): Promise<INotificationBatchDocument> {
+    const batch = mongoose.isValidObjectId(id)
+      ? await NotificationBatch.findById(id).select('-userIds')
+      : null;
+    if (!batch) {
+      throw new NotFoundError('Batch not found');
+    }
+    return batch;
+  }
+
+  /**
+   * Cancel a queued or running batch. Users in the chunk being sent when the
+   * batch is cancelled are still notified; no further chunks start.
+   */
+  static async cancel(id: string): Promise<INotificationBatchDocument> {
+    const batch = await this.get(id);
+
+    const cancelled = await NotificationBatch.findOneAndUpdate(
+      { _id: batch._id, status: { $in: ['queued', 'processing'] } },
+      {
+        $set: {
+          status: 'cancelled',
+          cancelledAt: new Date(),
+          expiresAt: new Date(Date.now() + FINISHED_RETENTION_MS)
+        },
+        $unset: { lockedAt: 1 }
+      },
+      { new: true, projection: { userIds: 0 } }
+    );
+
+    if (!cancelled) {
+      throw new ConflictError(`Batch is already ${batch.status}`);
+    }
+
+    logger.info(`Cancelled batch ${id}`, { processed: cancelled.processed, total: cancelled.total });
+    return cancelled;
+  }
+
+  /**
+   * Atomically claim the oldest queued batch. Batches stuck in processing
+   * longer than the lock timeout (e.g. after a crash) are claimed again.
+   */
+  private static async claimNext(): Promise<INotificationBatchDocument | null> {
+    const env = getEnv();
+    const now = new Date();
+
+    return NotificationBatch.findOneAndUpdate(
+      {
+        $or: [
+          { status: 'queued' },
+          { status: 'processing', lockedAt: { $lte: new Date(now.getTime() - env.QUEUE_LOCK_TIMEOUT_MS) } }
+        ]
+      },
+      [{ $set: { status: 'processing', lockedAt: now, startedAt: { $ifNull: ['$startedAt', now] } } }],
+      { sort: { createdAt: 1 }, new: true }
+    );
+  }
+
+  /**
+   * Send one chunk of users and collect the progress counters to add
+   */
+  private static async sendChunk(batch: INotificationBatchDocument, userIds: string[]): Promise<ChunkOutcome> {
+    const outcome: ChunkOutcome = { inc: {}, failures: [] };
+
+    if (batch.kind === 'in_app') {
+      const { title, body, type, category, data } = batch.notification;
+      try {
+        const result = await NotificationService.createInAppBatchNotifications({
+          userIds,
+          title,
+          body,
+          type: type as InAppNotificationType, // in_app batches store an in-app type (info, warning, ...)
+          category,
+          data
+        });
+        outcome.inc['progress.in_app.sent'] = result.created;
+        outcome.inc['progress.in_app.deferred'] = result.deferred;
+        outcome.inc['progress.in_app.failed'] = result.failed;
+      } catch (error: any) {
+        outcome.inc['progress.in_app.failed'] = userIds.length;
+        outcome.failures.push(...userIds.map(userId => ({ userId, channel: 'in_app', reason: error.message })));
+      }
+      return outcome;
+    }
+
+    const result = await NotificationService.sendOnChannels(
+      userIds,
+      batch.notification,
+      batch.channels as Array<'push' | 'sms'>
+    );
+    if (result.push) {
+      addChannelResult(outcome, 'push', result.push);
+    }
+    if (result.sms) {
+      addChannelResult(outcome, 'sms', result.sms);
+    }
+    return outcome;
+  }
+
+  /**
+   * Send a chunk while refreshing the batch lock, so a chunk that takes longer
+   * than the lock timeout is not claimed and sent again by another instance
+   */
+  private static async sendChunkLocked(batch: INotificationBatchDocument, userIds: string[]): Promise<ChunkOutcome> {
+    const heartbeat = setInterval(() => {
+      NotificationBatch.updateOne({ _id: batch._id, status: 'processing' }, { $set: { lockedAt: new Date() } })
+        .catch(error => logger.error(`Error refreshing lock of batch ${batch._id}:`, { error: error.message }));
+    }, Math.max(getEnv().QUEUE_LOCK_TIMEOUT_MS / 3, 1000));
+
+    try {
+      return await this.sendChunk(batch, userIds);
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /**
+   * Work through a claimed batch chunk by chunk, saving progress after each
+   * one and stopping as soon as the batch is cancelled
+   */
+  private static async run(claimed: INotificationBatchDocument): Promise<void> {
+    const env = getEnv();
+    let batch: INotificationBatchDocument | null = claimed;
+
+    while (batch && batch.status === 'processing' && batch.processed < batch.total) {
+      if (this.stopped) {
+        // Hand the rest back so the next worker resumes right away
+        await NotificationBatch.updateOne(
+          { _id: batch._id, status: 'processing' },
+          { $set: { status: 'queued' }, $unset: { lockedAt: 1 } }
+        );
+        return;
+      }
+
+      const userIds = batch.userIds.slice(batch.processed, batch.processed + env.BATCH_CHUNK_SIZE);
+      const outcome = await this.sendChunkLocked(batch, userIds);
+
+      // Matching on processed keeps a chunk from being counted twice; progress is
+      // recorded even if the batch was cancelled while the chunk was sending
+      batch = await NotificationBatch.findOneAndUpdate(
+        { _id: batch._id, processed: batch.processed },
+        {
+          $inc: { ...outcome.inc, processed: userIds.length },
+          $push: { failures: { $each: outcome.failures, $slice: MAX_BATCH_FAILURES } },
+          $set: { lockedAt: new Date() }
+        },
+        { new: true }
+      );
+    }
+
+    if (!batch || batch.status !== 'processing') {
+      return;
+    }
+
+    await NotificationBatch.updateOne(
+      { _id: batch._id, status: 'processing' },
+      {
+        $set: {
+          status: 'completed',
+          completedAt: new Date(),
+          expiresAt: new Date(Date.now() + FINISHED_RETENTION_MS)
+        },
+        $unset: { lockedAt: 1 }
+      }
+    );
+
+    logger.info(`Completed batch ${batch._id}`, { kind: batch.kind, total: batch.total, progress: batch.progress });
+  }
+
+  /**
+   * Run queued batches until none are left. Returns the number processed.
+   */
+  static async processQueued(): Promise<number> {
+    let processed = 0;
+
+    while (!this.stopped) {
+      const batch = await this.claimNext();
+      if (!batch) {
+        break;
+      }
+
+      try {
+        await this.run(batch);
+      } catch (error: any) {
+        // Not retried: users in earlier chunks were already notified
+        await NotificationBatch.updateOne(
+          { _id: batch._id, status: 'processing' },
+          {
+            $set: {
+              status: 'failed',
+              error: error.message,
+              expiresAt: new Date(Date.now() + FINISHED_RETENTION_MS)
+            },
+            $unset: { lockedAt: 1 }
+          }
+        );
+        logger.error(`Batch ${batch._id} failed:`, error);
+      }
+
+      processed++;
+    }
+
+    return processed;
+  }
+
+  /**
+   * Start the batch worker loop
+   */
+  static start(): void {
+    const env = getEnv();
+    if (!env.BATCH_WORKER_ENABLED || !this.stopped) {
+      return;
+    }
+
+    this.stopped = false;
+
+    const tick = async () => {
+      try {
+        await this.processQueued();
+      } catch (error) {
+        logger.error('Batch worker tick failed:', error);
+      }
+      if (!this.stopped) {
+        this.timer = setTimeout(tick, env.BATCH_POLL_INTERVAL_MS);
+      }
+    };
+
+    this.timer = setTimeout(tick, env.BATCH_POLL_INTERVAL_MS);
+    logger.info('📦 Notification batch worker started');
+  }
+
+  /**
+   * Stop the batch worker loop
+   */
+  static stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
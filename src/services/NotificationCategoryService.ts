@@ -0,0 +1,290 @@
+import logger from '../config/logger';
+import { DEFAULT_CATEGORIES } from '../config/categories';
+import NotificationCategory from '../models/NotificationCategory';
+import NotificationPreferences from '../models/NotificationPreferences';
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from '../errors/AppError';
+import { ChannelPreferences, NotificationCategoryDefinition, PreferenceChannel } from '../types';
+
+const PREFERENCE_CHANNELS: PreferenceChannel[] = ['push', 'email', 'sms'];
+const KEY_PATTERN = /^[a-z][A-Za-z0-9]{1,63}$/;
+// Top-level preference fields that a category key would collide with
+const RESERVED_KEYS = ['userId', 'categories', 'timezone', 'quietHours', 'digest', 'badgeUpdates', 'platforms', 'dnd'];
+const MAX_NAME_LENGTH = 64;
+const MAX_DESCRIPTION_LENGTH = 256;
+// Other instances see registry changes within this time
+const CACHE_TTL_MS = 30 * 1000;
+
+function toDefinition(category: NotificationCategoryDefinition): NotificationCategoryDefinition {
+  return {
+    key: category.key,
+    name: category.name,
+    description: category.description,
+    label: category.label,
+    channels: [...category.channels],
+    defaults: { ...category.defaults },
+    mandatory: [...(category.mandatory || [])]
+  };
+}
+
+function validateChannelList(input: unknown, field: string): PreferenceChannel[] {
+  if (!Array.isArray(input) || input.some(channel => !PREFERENCE_CHANNELS.includes(channel))) {
+    throw new BadRequestError(`${field} must be an array of: ${PREFERENCE_CHANNELS.join(', ')}`);
+  }
+  return Array.from(new Set(input));
+}
+
+function validateText(input: unknown, field: string, maxLength: number): string {
+  if (typeof input !== 'string' || !input.trim() || input.trim().length > maxLength) {
+    throw new BadRequestError(`${field} must be a non-empty string of at most ${maxLength} characters`);
+  }
+  return input.trim();
+}
+
+export class NotificationCategoryService {
+  private static cache: { loadedAt: number; categories: Map<string, NotificationCategoryDefinition> } | null = null;
+
+  /**
+   * Validate a new category, or an update merged over the existing definition
+   */
+  static validate(input: any, existing?: NotificationCategoryDefinition): NotificationCategoryDefinition {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      throw new BadRequestError('Request body must be an object');
+    }
+
+    let key = existing?.key;
+    if (!existing) {
+      if (typeof input.key !== 'string' || !KEY_PATTERN.test(input.key)) {
+        throw new BadRequestError('key must be camelCase letters and digits, e.g. "paymentReminders"');
+      }
+      if (RESERVED_KEYS.includes(input.key)) {
+        throw new BadRequestError(`key cannot be one of: ${RESERVED_KEYS.join(', ')}`);
+      }
+      key = input.key;
+    } else if (input.key !== undefined && input.key !== existing.key) {
+      throw new BadRequestError('key cannot be changed');
+    }
+
+    const name = input.name !== undefined || !existing
+      ? validateText(input.name, 'name', MAX_NAME_LENGTH)
+      : existing.name;
+    const label = input.label !== undefined
+      ? validateText(input.label, 'label', MAX_NAME_LENGTH)
+      : existing?.label || name.toLowerCase();
+
+    let description = existing?.description;
+    if (input.description !== undefined) {
+      description = input.description === null
+        ? undefined
+        : validateText(input.description, 'description', MAX_DESCRIPTION_LENGTH);
+    }
+
+    const channels = input.channels !== undefined || !existing
+      ? validateChannelList(input.channels, 'channels')
+      : existing.channels;
+    if (channels.length === 0) {
+      throw new BadRequestError('channels must include at least one channel');
+    }
+
+    const mandatory = input.mandatory !== undefined
+      ? validateChannelList(input.mandatory, 'mandatory')
+      : (existing?.mandatory || []).filter(channel => channels.includes(channel));
+    if (mandatory.some(channel => !channels.includes(channel))) {
+      throw new BadRequestError('mandatory channels must also be in channels');
+    }
+
+    if (input.defaults !== undefined && (!input.defaults || typeof input.defaults !== 'object' || Array.isArray(input.defaults))) {
+      throw new BadRequestError('defaults must be an object, e.g. { "push": true, "email": false }');
+    }
+    const defaults: ChannelPreferences = {};
+    for (const channel of channels) {
+      const value = input.defaults?.[channel] ?? existing?.defaults[channel] ?? true;
+      if (typeof value !== 'boolean') {
+        throw new BadRequestError(`defaults.${channel} must be a boolean`);
+      }
+      defaults[channel] = mandatory.includes(channel) || value;
+    }
+    const unknown = Object.keys(input.defaults || {}).filter(channel => !channels.includes(channel as PreferenceChannel));
+    if (unknown.length > 0) {
+      throw new BadRequestError(`defaults can only include the category's channels (${channels.join(', ')})`);
+    }
+
+    return { key: key!, name, description, label, channels, defaults, mandatory };
+  }
+
+  /**
+   * All registered categories by key. Cached briefly; falls back to the
+   * built-in defaults if the registry cannot be read.
+   */
+  static async getAll(): Promise<Map<string, NotificationCategoryDefinition>> {
+    if (this.cache && Date.now() - this.cache.loadedAt < CACHE_TTL_MS) {
+      return this.cache.categories;
+    }
+
+    try {
+      const categories = await NotificationCategory.find().sort({ createdAt: 1, key: 1 }).lean();
+      this.cache = {
+        loadedAt: Date.now(),
+        categories: new Map(categories.map(category => [category.key, toDefinition(category)]))
+      };
+      return this.cache.categories;
+    } catch (error: any) {
+      logger.error('Error loading notification categories, using defaults:', { error: error.message });
+      return this.cache?.categories || new Map(DEFAULT_CATEGORIES.map(category => [category.key, toDefinition(category)]));
+    }
+  }
+
+  /**
+   * Whether a category is essential: it has a channel users cannot turn off.
+   * Essential categories skip do-not-disturb, quiet hours and digests, and
+   * cannot be deleted.
+   */
+  static isEssential(definition?: NotificationCategoryDefinition): boolean {
+    return (definition?.mandatory.length || 0) > 0;
+  }
+
+  /**
+   * A single category, or undefined when it is not registered
+   */
+  static async get(key: string): Promise<NotificationCategoryDefinition | undefined> {
+    return (await this.getAll()).get(key);
+  }
+
+  /**
+   * Register a new category
+   */
+  static async create(input: any, createdBy?: string): Promise<NotificationCategoryDefinition> {
+    const definition = this.validate(input);
+
+    try {
+      await NotificationCategory.create({ ...definition, createdBy });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw new ConflictError(`Category "${definition.key}" already exists`);
+      }
+      throw error;
+    }
+
+    this.cache = null;
+    logger.info(`Created notification category: ${definition.key}`, { createdBy });
+    return definition;
+  }
+
+  /**
+   * Change a category's name, description, channels, defaults or mandatory
+   * channels. Users' stored choices are kept; new defaults apply to users who
+   * have not chosen.
+   */
+  static async update(key: string, input: any): Promise<NotificationCategoryDefinition> {
+    const existing = await NotificationCategory.findOne({ key }).lean();
+    if (!existing) {
+      throw new NotFoundError('Category not found');
+    }
+
+    const definition = this.validate(input, toDefinition(existing));
+    const { key: _key, description, ...fields } = definition;
+    await NotificationCategory.updateOne(
+      { key },
+      description ? { $set: { ...fields, description } } : { $set: fields, $unset: { description: 1 } }
+    );
+
+    this.cache = null;
+    logger.info(`Updated notification category: ${key}`);
+    return definition;
+  }
+
+  /**
+   * Remove a category. Users' stored choices for it are left in place and
+   * apply again if the key is registered later.
+   */
+  static async remove(key: string): Promise<void> {
+    const existing = await NotificationCategory.findOne({ key }).lean();
+    if (!existing) {
+      throw new NotFoundError('Category not found');
+    }
+    if (this.isEssential(toDefinition(existing))) {
+      throw new ForbiddenError(`The ${key} category has mandatory channels and cannot be deleted`);
+    }
+
+    // Only delete it if it is still not essential
+    const removed = await NotificationCategory.findOneAndDelete({ key, mandatory: { $size: 0 } });
+    if (!removed) {
+      throw new ConflictError(`The ${key} category changed, please try again`);
+    }
+
+    this.cache = null;
+    logger.info(`Deleted notification category: ${key}`);
+  }
+
+  /**
+   * A user's effective choice for each of the category's channels: mandatory
+   * channels are on, then the stored choice, then the category default
+   */
+  static resolveChannels(definition: NotificationCategoryDefinition, stored?: ChannelPreferences): ChannelPreferences {
+    const channels: ChannelPreferences = {};
+    for (const channel of definition.channels) {
+      channels[channel] = definition.mandatory.includes(channel) ||
+        (typeof stored?.[channel] === 'boolean' ? stored[channel]! : definition.defaults[channel] !== false);
+    }
+    return channels;
+  }
+
+  /**
+   * Validate a user's update of a category's channels, e.g. { "push": false },
+   * merged over their current choices. Mandatory channels stay on.
+   */
+  static validateChannelPreferences(
+    definition: NotificationCategoryDefinition,
+    input: unknown,
+    current?: ChannelPreferences
+  ): ChannelPreferences {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      throw new BadRequestError(`${definition.key} must be an object, e.g. { "push": false }`);
+    }
+
+    const updated: ChannelPreferences = { ...current };
+    for (const [channel, value] of Object.entries(input)) {
+      if (!definition.channels.includes(channel as PreferenceChannel)) {
+        throw new BadRequestError(`${definition.key} only has these channels: ${definition.channels.join(', ')}`);
+      }
+      if (typeof value !== 'boolean') {
+        throw new BadRequestError(`${definition.key}.${channel} must be a boolean`);
+      }
+      updated[channel as PreferenceChannel] = definition.mandatory.includes(channel as PreferenceChannel) || value;
+    }
+    return updated;
+  }
+
+  /**
+   * Insert the built-in categories that are missing (admin edits are kept) and
+   * move preferences stored before the registry into `categories`
+   */
+  static async seedDefaults(): Promise<void> {
+    const result = await NotificationCategory.bulkWrite(DEFAULT_CATEGORIES.map(category => ({
+      updateOne: {
+        filter: { key: category.key },
+        update: { $setOnInsert: category },
+        upsert: true
+      }
+    })), { ordered: false });
+
+    if (result.upsertedCount > 0) {
+      logger.info(`Seeded ${result.upsertedCount} notification categories`);
+    }
+
+    // Older documents kept one top-level field per built-in category
+    const legacyKeys = DEFAULT_CATEGORIES.map(category => category.key);
+    const migrated = await NotificationPreferences.collection.updateMany(
+      { categories: { $exists: false } },
+      [
+        { $set: { categories: Object.fromEntries(legacyKeys.map(key => [key, `$${key}`])) } },
+        { $unset: legacyKeys }
+      ]
+    );
+
+    if (migrated.modifiedCount > 0) {
+      logger.info(`Moved ${migrated.modifiedCount} notification preferences to per-category storage`);
+    }
+
+    this.cache = null;
+  }
+}
@@ -1,9 +1,118 @@
+import { randomUUID } from 'crypto';
 import { admin } from '../config/firebase';
 import logger from '../config/logger';
-import NotificationPreferences from '../models/NotificationPreferences';
+import NotificationPreferences, { INotificationPreferencesDocument } from '../models/NotificationPreferences';
 import FCMToken, { IFCMTokenDocument } from '../models/FCMToken';
-import { NotificationPayload, NotificationPreferences as INotificationPreferences } from '../types';
-import { NotFoundError } from '../errors/AppError';
+import { IInAppNotificationDocument } from '../models/InAppNotification';
+import {
+  BatchChannelResult,
+  ChannelPreferences,
+  ChannelSendResult,
+  DoNotDisturb,
+  NotificationChannel,
+  NotificationPayload,
+  NotificationCategoryDefinition,
+  NotificationPreferences as INotificationPreferences,
+  NotificationSettings,
+  PreferenceChannel,
+  QuietHours,
+  SendOptions,
+  UserNotificationPreferences
+} from '../types';
+import { BadRequestError, NotFoundError } from '../errors/AppError';
+import { getEnv } from '../config/env';
+import { getEmailTransport, renderEmail } from './email';
+import { getSmsProvider } from './sms';
+import { PhoneNumberService } from './PhoneNumberService';
+import { QueueService } from './QueueService';
+import { buildPushMessage, sendMulticast } from './push/fcm';
+import { pickPushOptions } from './push/pushOptions';
+import { buildWebPushPayload, sendWebPush } from './push/webPush';
+import { DeliveryLogService } from './DeliveryLogService';
+import { SchedulerService } from './SchedulerService';
+import { RealtimeService } from './RealtimeService';
+import { DigestService } from './DigestService';
+import { TopicService } from './TopicService';
+import { BatchSendService } from './BatchSendService';
+import { BadgeService } from './BadgeService';
+import { WebPushService } from './WebPushService';
+import { DeviceInfo, DeviceService } from './DeviceService';
+import { NotificationCategoryService } from './NotificationCategoryService';
+import { filterPushTokens, isPushAllowed, validatePlatformRules } from './push/pushTargets';
+import { mapWithConcurrency } from './concurrency';
+import {
+  DEFAULT_TIMEZONE,
+  getDndEnd,
+  getQuietHoursEnd,
+  isDroppedByDnd,
+  isValidTimezone,
+  validateDnd,
+  validateQuietHours
+} from './quietHours';
+
+/**
+ * Outcome of creating an in-app notification: the stored notification, or the
+ * result of holding it back (collected into a digest)
+ */
+export type InAppCreateResult =
+  | { notification: IInAppNotificationDocument; held?: undefined }
+  | { held: ChannelSendResult; notification?: undefined };
+
+/**
+ * Whether a user's preferences allow a category on a channel. Categories
+ * missing from the registry are allowed.
+ */
+export function isChannelEnabled(
+  preferences: { categories?: INotificationPreferences } | null,
+  category: NotificationCategoryDefinition | undefined,
+  channel: PreferenceChannel
+): boolean {
+  if (!category) {
+    return true;
+  }
+  if (!category.channels.includes(channel)) {
+    return false;
+  }
+  return NotificationCategoryService.resolveChannels(category, preferences?.categories?.[category.key])[channel] === true;
+}
+
+/**
+ * Preferences as returned by the API: settings plus the effective channel
+ * choices for every registered category
+ */
+function toUserPreferences(
+  preferences: Partial<INotificationPreferencesDocument> | null,
+  categories: Map<string, NotificationCategoryDefinition>
+): UserNotificationPreferences {
+  const channels: Record<string, ChannelPreferences> = {};
+  for (const category of categories.values()) {
+    channels[category.key] = NotificationCategoryService.resolveChannels(category, preferences?.categories?.[category.key]);
+  }
+
+  return {
+    ...channels,
+    timezone: preferences?.timezone || DEFAULT_TIMEZONE,
+    quietHours: toQuietHours(preferences?.quietHours),
+    digest: DigestService.resolveRules(preferences?.digest),
+    badgeUpdates: preferences?.badgeUpdates !== false,
+    platforms: preferences?.platforms || {},
+    dnd: toDnd(preferences?.dnd)
+  };
+}
+
+function toDnd(dnd?: DoNotDisturb | null): DoNotDisturb | null {
+  if (!dnd || !getDndEnd({ dnd })) {
+    return null;
+  }
+  return { until: dnd.until, deliverLater: dnd.deliverLater === true, startedAt: dnd.startedAt };
+}
+
+function toQuietHours(quietHours?: QuietHours): QuietHours {
+  return {
+    enabled: quietHours?.enabled || false,
+    schedule: (quietHours?.schedule || []).map(({ day, start, end }) => ({ day, start, end }))
+  };
+}
 
 export class NotificationService {
   /**
@@ -45,26 +154,19 @@ export class NotificationService {
         return true;
       }
 
-      const categoryPrefs = preferences[category as keyof INotificationPreferences];
-
-      // If category doesn't exist in preferences, allow by default
-      if (!categoryPrefs) {
-        logger.warn('Category not found in preferences, allowing notification by default', { userId, category });
-        return true;
-      }
+      const definition = await NotificationCategoryService.get(category);
 
-      // For categories that only have push (keywordTaskAlerts, recommendedTaskAlerts)
-      if (category === 'keywordTaskAlerts' || category === 'recommendedTaskAlerts') {
-        return channel === 'push' && (categoryPrefs as { push: boolean }).push === true;
+      if (isDroppedByDnd(preferences, NotificationCategoryService.isEssential(definition))) {
+        logger.info('Notification suppressed - do not disturb', { userId, category, channel });
+        return false;
       }
 
-      // For other categories with multiple channels
-      if ('push' in categoryPrefs && 'email' in categoryPrefs && 'sms' in categoryPrefs) {
-        const channelPrefs = categoryPrefs as { email: boolean; push: boolean; sms: boolean };
-        return channelPrefs[channel] === true;
+      // If the category isn't registered, allow by default
+      if (!definition) {
+        logger.warn('Category not registered, allowing notification by default', { userId, category });
       }
 
-      return false;
+      return isChannelEnabled(preferences, definition, channel);
     } catch (error: any) {
       logger.error('Error checking notification preferences:', error);
       // Default to allowing notifications if check fails (fail open)
@@ -73,11 +175,104 @@ export class NotificationService {
   }
 
   /**
-   * Get all FCM tokens for a user
+   * Hold a non-essential notification back instead of sending it now:
+   * collect it into the category's digest, defer push/email/SMS until the
+   * user's do-not-disturb ends (when they chose deliverLater), or defer
+   * push/SMS until their quiet hours end. Returns the held-back result, or null to send now.
+   * Batch senders pass the user's already-loaded preferences (null when none exist).
+   */
+  static async holdBack(
+    userId: string,
+    channel: NotificationChannel,
+    notification: Omit<NotificationPayload, 'userId'>,
+    category: keyof INotificationPreferences,
+    options: SendOptions,
+    preloaded?: Partial<NotificationSettings> | null
+  ): Promise<ChannelSendResult | null> {
+    const checkDigest = !options.skipDigest && channel !== 'sms' && getEnv().DIGEST_ENABLED;
+    const checkQuietHours = !options.skipQuietHours && (channel === 'push' || channel === 'sms');
+    const checkDnd = !options.skipQuietHours && channel !== 'in_app';
+
+    if (!checkDigest && !checkQuietHours && !checkDnd) {
+      return null;
+    }
+    if (NotificationCategoryService.isEssential(await NotificationCategoryService.get(category))) {
+      return null;
+    }
+
+    const settings = preloaded !== undefined
+      ? preloaded
+      : await NotificationPreferences.findOne({ userId }).select('timezone quietHours digest dnd').lean();
+    const notificationId = options.notificationId || randomUUID();
+
+    const rule = checkDigest ? DigestService.resolveRules(settings?.digest)[category] : undefined;
+    if (rule?.enabled && rule.channel === channel) {
+      const bucket = await DigestService.collect(userId, category, rule, {
+        notificationId,
+        type: notification.type,
+        title: notification.title,
+        body: notification.body,
+        data: notification.data,
+        email: notification.email,
+        push: pickPushOptions(notification)
+      });
+
+      logger.info(`Collected ${channel} notification into digest`, {
+        userId,
+        category,
+        type: notification.type,
+        digestId: bucket._id
+      });
+
+      return {
+        notificationId,
+        success: true,
+        sent: 0,
+        failed: 0,
+        deferredUntil: bucket.flushAt,
+        deferredReason: 'digest',
+        digestId: String(bucket._id)
+      };
+    }
+
+    const dndEnd = checkDnd && settings?.dnd?.deliverLater ? getDndEnd(settings) : null;
+    const deferredUntil = dndEnd || (checkQuietHours && settings ? getQuietHoursEnd(settings) : null);
+    if (!deferredUntil) {
+      return null;
+    }
+    const reason = dndEnd ? 'dnd' : 'quiet_hours';
+
+    // Preferences, digests, do-not-disturb and quiet hours are checked again when the deferred send runs
+    const scheduled = await SchedulerService.schedule({
+      kind: 'deferred',
+      userIds: [userId],
+      payload: { channel, notification, notificationId, reason },
+      sendAt: deferredUntil
+    });
+
+    logger.info(`Deferred ${channel} notification until ${dndEnd ? 'do-not-disturb' : 'quiet hours'} end`, {
+      userId,
+      type: notification.type,
+      deferredUntil
+    });
+
+    return {
+      notificationId,
+      success: true,
+      sent: 0,
+      failed: 0,
+      deferredUntil,
+      deferredReason: reason,
+      scheduledId: String(scheduled._id)
+    };
+  }
+
+  /**
+   * Get all unmuted FCM tokens for a user
    */
   static async getUserFCMTokens(userId: string): Promise<IFCMTokenDocument[]> {
     try {
-      const tokens = await FCMToken.find({ userId }).sort({ lastActive: -1 });
+      const tokens = await FCMToken.find({ userId, muted: { $ne: true } }).sort({ lastActive: -1 });
       return tokens;
     } catch (error: any) {
       logger.error('Error fetching FCM tokens:', error);
@@ -90,12 +285,14 @@ export class NotificationService {
    */
   static async sendPushNotification(
     userId: string,
-    notification: Omit<NotificationPayload, 'userId'>
-  ): Promise<{ success: boolean; sent: number; failed: number }> {
+    notification: Omit<NotificationPayload, 'userId'>,
+    options: SendOptions = {}
+  ): Promise<ChannelSendResult> {
     try {
       // Check if user has push notifications enabled for this category
       const category = notification.category || 'taskUpdates';
-      const shouldSend = await this.shouldSendNotification(userId, category, 'push');
+      const shouldSend = options.skipPreferenceCheck ||
+        await this.shouldSendNotification(userId, category, 'push');
 
       if (!shouldSend) {
         logger.info(`Notification skipped - user preferences disabled`, {
@@ -103,92 +300,105 @@ export class NotificationService {
           category,
           type: notification.type
         });
-        return { success: true, sent: 0, failed: 0 };
+        return { success: true, sent: 0, failed: 0, skipped: 'preferences' };
       }
 
-      // Get user's FCM tokens
-      const tokens = await this.getUserFCMTokens(userId);
+      const deferred = await this.holdBack(userId, 'push', notification, category, options);
+      if (deferred) {
+        return deferred;
+      }
+
+      // Get user's FCM tokens and browser (Web Push) subscriptions
+      const [allTokens, allWebTargets, platformRules, definition] = await Promise.all([
+        this.getUserFCMTokens(userId),
+        WebPushService.getTargets([userId]).then(targets => targets.get(userId) || []),
+        NotificationPreferences.findOne({ userId }).select('platforms').lean().then(p => p?.platforms),
+        NotificationCategoryService.get(category)
+      ]);
 
-      if (tokens.length === 0) {
+      if (allTokens.length === 0 && allWebTargets.length === 0) {
         logger.warn(`No FCM tokens found for user: ${userId}`);
-        return { success: true, sent: 0, failed: 0 };
+        return { success: true, sent: 0, failed: 0, skipped: 'no_tokens' };
       }
 
-      // Prepare FCM message
-      const message = {
-        notification: {
-          title: notification.title,
-          body: notification.body
-        },
-        data: {
-          type: notification.type,
-          ...(notification.data || {})
-        },
-        android: {
-          priority: 'high' as const,
-          notification: {
-            sound: 'default',
-            channelId: 'default'
-          }
-        },
-        apns: {
-          payload: {
-            aps: {
-              sound: 'default',
-              badge: 1
-            }
-          }
-        }
-      };
+      // Drop devices and platforms the user muted or limited to other categories
+      const mandatoryPush = definition?.mandatory.includes('push') === true;
+      const tokens = filterPushTokens(allTokens, category, mandatoryPush, platformRules);
+      const webTargets = isPushAllowed(platformRules?.web, category, mandatoryPush) ? allWebTargets : [];
+
+      if (tokens.length === 0 && webTargets.length === 0) {
+        logger.info(`Notification skipped - no device accepts this category`, {
+          userId,
+          category,
+          type: notification.type
+        });
+        return { success: true, sent: 0, failed: 0, skipped: 'preferences' };
+      }
+
+      // Prepare FCM message with the badge from the user's unread count
+      const badge = await BadgeService.getBadge(userId, notification.badgeExtra);
+      const message = buildPushMessage(notification, { badge });
 
       // Send to all tokens
       const tokenStrings = tokens.map(t => t.token);
-      const response = await admin.messaging().sendEachForMulticast({
-        tokens: tokenStrings,
-        ...message
+      const notificationId = options.notificationId || randomUUID();
+      const [outcome, webOutcomes] = await Promise.all([
+        tokenStrings.length > 0 ? sendMulticast(tokenStrings, message) : Promise.resolve(null),
+        webTargets.length > 0
+          ? sendWebPush(webTargets, buildWebPushPayload(notification, { badge }), notification)
+          : Promise.resolve([])
+      ]);
+      const retryableTokens = outcome?.retryableTokens || [];
+      const webSent = webOutcomes.filter(o => o.success).length;
+      const sent = (outcome?.successCount || 0) + webSent;
+      const failed = (outcome?.failureCount || 0) + webOutcomes.length - webSent;
+
+      await DeliveryLogService.record({
+        notificationId,
+        userId,
+        channel: 'push',
+        category,
+        type: notification.type,
+        title: notification.title,
+        outcomes: [...(outcome ? DeliveryLogService.toPushOutcomes(outcome, tokens) : []), ...webOutcomes],
+        queued: retryableTokens.length
       });
 
-      // Update lastActive for successful tokens
-      const successfulTokens = response.responses
-        .map((resp, idx) => resp.success ? tokens[idx].token : null)
-        .filter(Boolean) as string[];
-
-      if (successfulTokens.length > 0) {
-        await FCMToken.updateMany(
-          { token: { $in: successfulTokens } },
-          { lastActive: new Date() }
-        );
+      if (outcome?.error && retryableTokens.length === 0 && webSent === 0) {
+        throw new Error(outcome.error.message);
       }
 
-      // Remove invalid tokens
-      const invalidTokens = response.responses
-        .map((resp, idx) => {
-          if (!resp.success && (
-            resp.error?.code === 'messaging/invalid-registration-token' ||
-            resp.error?.code === 'messaging/registration-token-not-registered'
-          )) {
-            return tokens[idx].token;
-          }
-          return null;
-        })
-        .filter(Boolean) as string[];
-
-      if (invalidTokens.length > 0) {
-        await FCMToken.deleteMany({ token: { $in: invalidTokens } });
-        logger.info(`Removed ${invalidTokens.length} invalid FCM tokens`);
+      // Hand transient FCM failures to the retry queue instead of dropping them
+      if (retryableTokens.length > 0) {
+        await QueueService.enqueue(
+          'push',
+          {
+            notificationId,
+            userId,
+            category,
+            type: notification.type,
+            title: notification.title,
+            tokens: retryableTokens,
+            message
+          },
+          { delayMs: QueueService.computeBackoffMs(1) }
+        );
       }
 
       logger.info(`Push notification sent`, {
         userId,
         type: notification.type,
-        sent: response.successCount,
-        failed: response.failureCount
+        sent,
+        failed,
+        queued: retryableTokens.length
       });
 
       return {
-        success: response.successCount > 0,
-        sent: response.successCount,
-        failed: response.failureCount
+        notificationId,
+        success: sent > 0 || retryableTokens.length > 0,
+        sent,
+        failed,
+        queued: retryableTokens.length
       };
     } catch (error: any) {
       logger.error('Error sending push notification:', error);
@@ -202,26 +412,206 @@ export class NotificationService {
   static async sendToMultipleUsers(
     userIds: string[],
     notification: Omit<NotificationPayload, 'userId'>
-  ): Promise<{ total: number; sent: number; failed: number }> {
-    let totalSent = 0;
-    let totalFailed = 0;
+  ): Promise<{ total: number } & BatchChannelResult> {
+    const result = await BatchSendService.sendPush(userIds, notification);
+    return { total: result.results.length, ...result };
+  }
 
-    for (const userId of userIds) {
+  /**
+   * Send a notification to several users over push and/or SMS (POST /send)
+   */
+  static async sendOnChannels(
+    userIds: string[],
+    notification: Omit<NotificationPayload, 'userId'>,
+    channels: Array<'push' | 'sms'>
+  ): Promise<{ push?: BatchChannelResult; sms?: BatchChannelResult }> {
+    return {
+      ...(channels.includes('push') && { push: await BatchSendService.sendPush(userIds, notification) }),
+      ...(channels.includes('sms') && { sms: await BatchSendService.sendSms(userIds, notification) })
+    };
+  }
+
+  /**
+   * Resolve the email address for a user from their Firebase account
+   */
+  static async getUserEmail(userId: string): Promise<string | null> {
+    try {
+      const user = await admin.auth().getUser(userId);
+      return user.email || null;
+    } catch (error: any) {
+      if (error.code === 'auth/user-not-found') {
+        return null;
+      }
+      logger.error('Error resolving user email:', error);
+      throw new Error(`Failed to resolve user email: ${error.message}`);
+    }
+  }
+
+  /**
+   * Send email notification via the configured email transport
+   */
+  static async sendEmailNotification(
+    userId: string,
+    notification: Omit<NotificationPayload, 'userId'>,
+    options: SendOptions = {}
+  ): Promise<ChannelSendResult> {
+    try {
+      // Check if user has email notifications enabled for this category
+      const category = notification.category || 'taskUpdates';
+      const shouldSend = options.skipPreferenceCheck ||
+        await this.shouldSendNotification(userId, category, 'email');
+
+      if (!shouldSend) {
+        logger.info(`Email skipped - user preferences disabled`, {
+          userId,
+          category,
+          type: notification.type
+        });
+        return { success: true, sent: 0, failed: 0, skipped: 'preferences' };
+      }
+
+      const deferred = await this.holdBack(userId, 'email', notification, category, options);
+      if (deferred) {
+        return deferred;
+      }
+
+      const to = notification.email?.to || await this.getUserEmail(userId);
+
+      if (!to) {
+        logger.warn(`No email address found for user: ${userId}`);
+        return { success: true, sent: 0, failed: 0, skipped: 'no_email' };
+      }
+
+      const rendered = renderEmail({
+        title: notification.title,
+        body: notification.body,
+        subject: notification.email?.subject,
+        html: notification.email?.html,
+        text: notification.email?.text
+      });
+
+      const notificationId = options.notificationId || randomUUID();
+      const transport = getEmailTransport();
+      const logEntry = {
+        notificationId,
+        userId,
+        channel: 'email' as const,
+        category,
+        type: notification.type,
+        title: notification.title
+      };
+
+      let result;
       try {
-        const result = await this.sendPushNotification(userId, notification);
-        totalSent += result.sent;
-        totalFailed += result.failed;
+        result = await transport.send({
+          to,
+          from: getEnv().EMAIL_FROM,
+          ...rendered
+        });
       } catch (error: any) {
-        logger.error(`Failed to send notification to user ${userId}:`, error);
-        totalFailed++;
+        await DeliveryLogService.record({
+          ...logEntry,
+          outcomes: [{ target: to, platform: transport.name, success: false, errorCode: error.code, errorMessage: error.message }]
+        });
+        throw error;
       }
+
+      await DeliveryLogService.record({
+        ...logEntry,
+        outcomes: [{ target: to, platform: transport.name, success: true, messageId: result.messageId }]
+      });
+
+      logger.info(`Email notification sent`, {
+        userId,
+        type: notification.type,
+        transport: transport.name,
+        messageId: result.messageId
+      });
+
+      return { notificationId, success: true, sent: 1, failed: 0 };
+    } catch (error: any) {
+      logger.error('Error sending email notification:', error);
+      throw new Error(`Failed to send email notification: ${error.message}`);
     }
+  }
 
-    return {
-      total: userIds.length,
-      sent: totalSent,
-      failed: totalFailed
-    };
+  /**
+   * Send SMS notification to the user's verified phone number
+   */
+  static async sendSmsNotification(
+    userId: string,
+    notification: Omit<NotificationPayload, 'userId'>,
+    options: SendOptions = {}
+  ): Promise<ChannelSendResult> {
+    try {
+      // Check if user has SMS notifications enabled for this category
+      const category = notification.category || 'taskUpdates';
+      const shouldSend = options.skipPreferenceCheck ||
+        await this.shouldSendNotification(userId, category, 'sms');
+
+      if (!shouldSend) {
+        logger.info(`SMS skipped - user preferences disabled`, {
+          userId,
+          category,
+          type: notification.type
+        });
+        return { success: true, sent: 0, failed: 0, skipped: 'preferences' };
+      }
+
+      const deferred = await this.holdBack(userId, 'sms', notification, category, options);
+      if (deferred) {
+        return deferred;
+      }
+
+      const phoneNumber = await PhoneNumberService.getVerifiedPhoneNumber(userId);
+
+      if (!phoneNumber) {
+        logger.warn(`No verified phone number found for user: ${userId}`);
+        return { success: true, sent: 0, failed: 0, skipped: 'no_phone' };
+      }
+
+      const notificationId = options.notificationId || randomUUID();
+      const provider = getSmsProvider();
+      const logEntry = {
+        notificationId,
+        userId,
+        channel: 'sms' as const,
+        category,
+        type: notification.type,
+        title: notification.title
+      };
+
+      let result;
+      try {
+        result = await provider.send({
+          to: phoneNumber,
+          body: notification.sms?.body || `${notification.title}: ${notification.body}`
+        });
+      } catch (error: any) {
+        await DeliveryLogService.record({
+          ...logEntry,
+          outcomes: [{ target: phoneNumber, platform: provider.name, success: false, errorCode: error.code, errorMessage: error.message }]
+        });
+        throw error;
+      }
+
+      await DeliveryLogService.record({
+        ...logEntry,
+        outcomes: [{ target: phoneNumber, platform: provider.name, success: true, messageId: result.messageId }]
+      });
+
+      logger.info(`SMS notification sent`, {
+        userId,
+        type: notification.type,
+        provider: provider.name,
+        messageId: result.messageId
+      });
+
+      return { notificationId, success: true, sent: 1, failed: 0 };
+    } catch (error: any) {
+      logger.error('Error sending SMS notification:', error);
+      throw new Error(`Failed to send SMS notification: ${error.message}`);
+    }
   }
 
   /**
@@ -231,20 +621,39 @@ export class NotificationService {
     userId: string,
     token: string,
     platform: 'ios' | 'android' | 'web',
-    deviceId?: string
+    deviceId?: string,
+    device: DeviceInfo = {},
+    context: { source?: string; userAgent?: string } = {}
   ): Promise<IFCMTokenDocument> {
     try {
       // Check if token already exists
       let fcmToken = await FCMToken.findOne({ token });
 
       if (fcmToken) {
+        const previous = { userId: fcmToken.userId, deviceId: fcmToken.deviceId };
+
+        // A token moving to another account stops receiving the old account's topics
+        if (fcmToken.userId !== userId) {
+          await TopicService.releaseToken(fcmToken.userId, token);
+          // The previous account's name and mute setting don't carry over
+          fcmToken.deviceName = undefined;
+          fcmToken.muted = false;
+        }
+
         // Update existing token
         fcmToken.userId = userId;
         fcmToken.platform = platform;
         fcmToken.deviceId = deviceId;
+        fcmToken.set(DeviceService.mergeDeviceInfo(fcmToken, device));
         fcmToken.lastActive = new Date();
         await fcmToken.save();
-        logger.info(`Updated FCM token for user: ${userId}`);
+
+        if (previous.userId !== userId) {
+          await DeviceService.recordReassignment(fcmToken, previous, context);
+          logger.warn(`FCM token moved from user ${previous.userId} to user: ${userId}`);
+        } else {
+          logger.info(`Updated FCM token for user: ${userId}`);
+        }
       } else {
         // Create new token
         fcmToken = await FCMToken.create({
@@ -252,11 +661,17 @@ export class NotificationService {
           token,
           platform,
           deviceId,
+          ...device,
           lastActive: new Date()
         });
         logger.info(`Registered new FCM token for user: ${userId}`);
       }
 
+      // Muted devices are kept out of topic broadcasts too
+      if (!fcmToken.muted) {
+        await TopicService.syncToken(userId, token);
+      }
+
       return fcmToken;
     } catch (error: any) {
       logger.error('Error registering FCM token:', error);
@@ -265,15 +680,17 @@ export class NotificationService {
   }
 
   /**
-   * Remove FCM token
+   * Remove one of the user's FCM tokens. A token registered to another user
+   * is reported as not found.
    */
-  static async removeToken(token: string): Promise<void> {
+  static async removeToken(userId: string, token: string): Promise<void> {
     try {
-      const result = await FCMToken.deleteOne({ token });
-      if (result.deletedCount === 0) {
+      const removed = await FCMToken.findOneAndDelete({ token, userId });
+      if (!removed) {
         throw new NotFoundError('FCM token not found');
       }
-      logger.info(`Removed FCM token`);
+      await TopicService.releaseToken(userId, token);
+      logger.info(`Removed FCM token for user: ${userId}`);
     } catch (error: any) {
       if (error instanceof NotFoundError) {
         throw error;
@@ -286,21 +703,13 @@ export class NotificationService {
   /**
    * Get notification preferences
    */
-  static async getPreferences(userId: string): Promise<INotificationPreferences> {
+  static async getPreferences(userId: string): Promise<UserNotificationPreferences> {
     try {
       // Validate userId
       if (!userId || typeof userId !== 'string' || userId.trim() === '') {
         logger.warn('Invalid userId passed to getPreferences', { userId });
         // Return default preferences without saving
-        return {
-          transactional: { email: false, push: true, sms: true },
-          taskUpdates: { email: true, push: true, sms: true },
-          taskReminders: { email: true, push: true, sms: true },
-          keywordTaskAlerts: { push: true },
-          recommendedTaskAlerts: { push: true },
-          helpfulInformation: { email: true, push: true, sms: true },
-          updatesNewsletters: { email: true, push: true, sms: true }
-        };
+        return toUserPreferences(null, await NotificationCategoryService.getAll());
       }
 
       let preferences = await NotificationPreferences.findOne({ userId });
@@ -320,15 +729,7 @@ export class NotificationService {
         }
       }
 
-      return {
-        transactional: preferences?.transactional || { email: false, push: true, sms: true },
-        taskUpdates: preferences?.taskUpdates || { email: true, push: true, sms: true },
-        taskReminders: preferences?.taskReminders || { email: true, push: true, sms: true },
-        keywordTaskAlerts: preferences?.keywordTaskAlerts || { push: true },
-        recommendedTaskAlerts: preferences?.recommendedTaskAlerts || { push: true },
-        helpfulInformation: preferences?.helpfulInformation || { email: true, push: true, sms: true },
-        updatesNewsletters: preferences?.updatesNewsletters || { email: true, push: true, sms: true }
-      };
+      return toUserPreferences(preferences, await NotificationCategoryService.getAll());
     } catch (error: any) {
       logger.error('Error fetching notification preferences:', error);
       throw new Error(`Failed to fetch preferences: ${error.message}`);
@@ -340,8 +741,8 @@ export class NotificationService {
    */
   static async updatePreferences(
     userId: string,
-    preferences: Partial<INotificationPreferences>
-  ): Promise<INotificationPreferences> {
+    preferences: Partial<UserNotificationPreferences>
+  ): Promise<UserNotificationPreferences> {
     try {
       // Validate userId
       if (!userId || typeof userId !== 'string' || userId.trim() === '') {
@@ -349,6 +750,21 @@ export class NotificationService {
         throw new Error('Invalid userId');
       }
 
+      if (preferences.timezone !== undefined &&
+        (typeof preferences.timezone !== 'string' || !isValidTimezone(preferences.timezone))) {
+        throw new BadRequestError('timezone must be a valid IANA timezone, e.g. "Asia/Kolkata"');
+      }
+
+      const quietHours = preferences.quietHours !== undefined
+        ? validateQuietHours(preferences.quietHours)
+        : undefined;
+
+      if (preferences.badgeUpdates !== undefined && typeof preferences.badgeUpdates !== 'boolean') {
+        throw new BadRequestError('badgeUpdates must be a boolean');
+      }
+
+      const categories = await NotificationCategoryService.getAll();
+
       let userPreferences = await NotificationPreferences.findOne({ userId });
 
       if (!userPreferences) {
@@ -365,55 +781,40 @@ export class NotificationService {
         }
       }
 
-      // Update preferences
-      if (preferences.transactional) {
-        userPreferences!.transactional = {
-          ...userPreferences!.transactional,
-          ...preferences.transactional
-        };
-        // Ensure push is always true for transactional
-        userPreferences!.transactional.push = true;
-      }
-
-      if (preferences.taskUpdates) {
-        userPreferences!.taskUpdates = {
-          ...userPreferences!.taskUpdates,
-          ...preferences.taskUpdates
-        };
+      // Update the channel choices of every registered category in the request
+      const updatedCategories = { ...userPreferences!.categories };
+      for (const category of categories.values()) {
+        if (preferences[category.key] !== undefined) {
+          updatedCategories[category.key] = NotificationCategoryService.validateChannelPreferences(
+            category,
+            preferences[category.key],
+            updatedCategories[category.key]
+          );
+        }
       }
+      userPreferences!.categories = updatedCategories;
 
-      if (preferences.taskReminders) {
-        userPreferences!.taskReminders = {
-          ...userPreferences!.taskReminders,
-          ...preferences.taskReminders
-        };
+      if (preferences.timezone) {
+        userPreferences!.timezone = preferences.timezone;
       }
 
-      if (preferences.keywordTaskAlerts) {
-        userPreferences!.keywordTaskAlerts = {
-          ...userPreferences!.keywordTaskAlerts,
-          ...preferences.keywordTaskAlerts
-        };
+      if (quietHours) {
+        userPreferences!.quietHours = quietHours;
       }
 
-      if (preferences.recommendedTaskAlerts) {
-        userPreferences!.recommendedTaskAlerts = {
-          ...userPreferences!.recommendedTaskAlerts,
-          ...preferences.recommendedTaskAlerts
-        };
+      if (preferences.badgeUpdates !== undefined) {
+        userPreferences!.badgeUpdates = preferences.badgeUpdates;
       }
 
-      if (preferences.helpfulInformation) {
-        userPreferences!.helpfulInformation = {
-          ...userPreferences!.helpfulInformation,
-          ...preferences.helpfulInformation
-        };
+      if (preferences.platforms !== undefined) {
+        userPreferences!.platforms = validatePlatformRules(preferences.platforms, categories, userPreferences!.platforms);
       }
 
-      if (preferences.updatesNewsletters) {
-        userPreferences!.updatesNewsletters = {
-          ...userPreferences!.updatesNewsletters,
-          ...preferences.updatesNewsletters
+      if (preferences.digest !== undefined) {
+        const current = DigestService.resolveRules(userPreferences!.digest);
+        userPreferences!.digest = {
+          ...userPreferences!.digest,
+          ...DigestService.validateRules(preferences.digest, current, categories)
         };
       }
 
@@ -421,27 +822,73 @@ export class NotificationService {
 
       logger.info(`Updated notification preferences for user: ${userId}`);
 
-      return {
-        transactional: userPreferences?.transactional || { email: false, push: true, sms: true },
-        taskUpdates: userPreferences?.taskUpdates || { email: true, push: true, sms: true },
-        taskReminders: userPreferences?.taskReminders || { email: true, push: true, sms: true },
-        keywordTaskAlerts: userPreferences?.keywordTaskAlerts || { push: true },
-        recommendedTaskAlerts: userPreferences?.recommendedTaskAlerts || { push: true },
-        helpfulInformation: userPreferences?.helpfulInformation || { email: true, push: true, sms: true },
-        updatesNewsletters: userPreferences?.updatesNewsletters || { email: true, push: true, sms: true }
-      };
+      return toUserPreferences(userPreferences, categories);
     } catch (error: any) {
+      if (error instanceof BadRequestError) {
+        throw error;
+      }
       logger.error('Error updating notification preferences:', error);
       throw new Error(`Failed to update preferences: ${error.message}`);
     }
   }
 
+  /**
+   * Turn on do-not-disturb, or change its end. Notifications already held back
+   * by an earlier do-not-disturb move to the new end.
+   */
+  static async setDnd(userId: string, input: any): Promise<DoNotDisturb> {
+    const dnd = validateDnd(input);
+
+    await NotificationPreferences.findOneAndUpdate(
+      { userId },
+      { $set: { dnd } },
+      { upsert: true, setDefaultsOnInsert: true }
+    );
+    await SchedulerService.rescheduleDeferred(userId, 'dnd', dnd.until);
+
+    logger.info(`Do-not-disturb on for user: ${userId}`, { until: dnd.until, deliverLater: dnd.deliverLater });
+    return dnd;
+  }
+
+  /**
+   * End do-not-disturb now; held-back notifications are delivered right away
+   */
+  static async clearDnd(userId: string): Promise<void> {
+    await NotificationPreferences.updateOne({ userId }, { $set: { dnd: null } });
+    await SchedulerService.rescheduleDeferred(userId, 'dnd', new Date());
+    logger.info(`Do-not-disturb off for user: ${userId}`);
+  }
+
   /**
    * ============================================================
-   * IN-APP NOTIFICATIONS (Polling)
+   * IN-APP NOTIFICATIONS (Polling + Server-Sent Events)
    * ============================================================
    */
 
+  /**
+   * Push current unread counts to the users' open in-app streams
+   */
+  private static async publishUnreadCounts(
+    userIds: string[],
+    options: { updateBadges?: boolean } = {}
+  ): Promise<void> {
+    try {
+      const counts = await BadgeService.getUnreadCounts(userIds);
+
+      await Promise.all(userIds.map(userId =>
+        RealtimeService.publish(userId, 'unread-count', { count: counts.get(userId)! })
+      ));
+
+      // A new notification's push already carries the badge; only a drop needs its own push.
+      // Not awaited so read receipts don't wait on FCM (failures are logged by BadgeService).
+      if (options.updateBadges) {
+        void BadgeService.sendBadgeUpdates(counts);
+      }
+    } catch (error: any) {
+      logger.error('Error publishing unread counts:', { error: error.message });
+    }
+  }
+
   /**
    * Create a single in-app notification
    */
@@ -452,8 +899,20 @@ export class NotificationService {
     type?: 'info' | 'warning' | 'error' | 'success';
     category?: string;
     data?: Record<string, any>;
-  }): Promise<any> {
+  }, options: SendOptions = {}): Promise<InAppCreateResult> {
     try {
+      if (data.category) {
+        const held = await this.holdBack(data.userId, 'in_app', {
+          type: data.type || 'info',
+          title: data.title,
+          body: data.body,
+          data: data.data
+        }, data.category as keyof INotificationPreferences, options);
+        if (held) {
+          return { held };
+        }
+      }
+
       const InAppNotification = (await import('../models/InAppNotification')).default;
       
       const notification = await InAppNotification.create({
@@ -466,12 +925,25 @@ export class NotificationService {
         read: false
       });
 
+      await DeliveryLogService.record({
+        notificationId: options.notificationId || String(notification._id),
+        userId: data.userId,
+        channel: 'in_app',
+        category: data.category,
+        type: data.data?.eventType || data.type || 'info',
+        title: data.title,
+        outcomes: [{ target: String(notification._id), success: true }]
+      });
+
+      await RealtimeService.publish(data.userId, 'notification', notification.toJSON());
+      await this.publishUnreadCounts([data.userId]);
+
       logger.info(`Created in-app notification for user: ${data.userId}`, {
         notificationId: notification._id,
         type: data.type
       });
 
-      return notification;
+      return { notification };
     } catch (error: any) {
       logger.error('Error creating in-app notification:', error);
       throw new Error(`Failed to create in-app notification: ${error.message}`);
@@ -488,11 +960,27 @@ export class NotificationService {
     type?: 'info' | 'warning' | 'error' | 'success';
     category?: string;
     data?: Record<string, any>;
-  }): Promise<{ total: number; created: number; failed: number }> {
+  }): Promise<{ total: number; created: number; deferred: number; failed: number }> {
     try {
       const InAppNotification = (await import('../models/InAppNotification')).default;
-      
-      const notifications = data.userIds.map(userId => ({
+
+      // Users whose digest rule collects this category get it in their summary instead
+      let userIds = data.userIds;
+      if (data.category) {
+        const notification = { type: data.type || 'info', title: data.title, body: data.body, data: data.data };
+        const preferences = await NotificationPreferences.find({ userId: { $in: data.userIds } })
+          .select('userId timezone quietHours digest dnd')
+          .lean();
+        const byUser = new Map(preferences.map(p => [p.userId, p]));
+
+        const held = await mapWithConcurrency(data.userIds, getEnv().BATCH_SEND_CONCURRENCY, userId =>
+          this.holdBack(userId, 'in_app', notification, data.category as keyof INotificationPreferences, {}, byUser.get(userId) || null)
+        );
+        userIds = data.userIds.filter((_userId, idx) => !held[idx]);
+      }
+      const deferred = data.userIds.length - userIds.length;
+
+      const notifications = userIds.map(userId => ({
         userId,
         title: data.title,
         body: data.body,
@@ -504,16 +992,38 @@ export class NotificationService {
 
       const result = await InAppNotification.insertMany(notifications, { ordered: false });
 
+      await DeliveryLogService.recordMany(result.map(notification => ({
+        notificationId: String(notification._id),
+        userId: notification.userId,
+        channel: 'in_app' as const,
+        category: data.category,
+        type: data.data?.eventType || data.type || 'info',
+        title: data.title,
+        outcomes: [{ target: String(notification._id), success: true }]
+      })));
+
+      // Best-effort: the notifications are stored, so streaming must not fail the request
+      try {
+        await mapWithConcurrency(result, getEnv().BATCH_SEND_CONCURRENCY, notification =>
+          RealtimeService.publish(notification.userId, 'notification', notification.toJSON())
+        );
+        await this.publishUnreadCounts(Array.from(new Set(result.map(n => n.userId))));
+      } catch (error: any) {
+        logger.error('Error publishing batch in-app notifications:', { error: error.message });
+      }
+
       logger.info(`Created batch in-app notifications`, {
         total: data.userIds.length,
         created: result.length,
+        deferred,
         userIds: data.userIds.slice(0, 5).join(',') + (data.userIds.length > 5 ? '...' : '')
       });
 
       return {
         total: data.userIds.length,
         created: result.length,
-        failed: data.userIds.length - result.length
+        deferred,
+        failed: userIds.length - result.length
       };
     } catch (error: any) {
       logger.error('Error creating batch in-app notifications:', error);
@@ -617,6 +1127,10 @@ export class NotificationService {
         }
       );
 
+      if (result.modifiedCount > 0) {
+        await this.publishUnreadCounts([userId], { updateBadges: true });
+      }
+
       return result.modifiedCount > 0;
     } catch (error: any) {
       logger.error('Error marking notification as read:', error);
@@ -642,6 +1156,10 @@ export class NotificationService {
         }
       );
 
+      if (result.modifiedCount > 0) {
+        await this.publishUnreadCounts([userId], { updateBadges: true });
+      }
+
       logger.info(`Marked all notifications as read for user: ${userId}`, {
         modifiedCount: result.modifiedCount
       });
@@ -663,12 +1181,16 @@ export class NotificationService {
     try {
       const InAppNotification = (await import('../models/InAppNotification')).default;
       
-      const result = await InAppNotification.deleteOne({
+      const deleted = await InAppNotification.findOneAndDelete({
         _id: notificationId,
         userId
       });
 
-      return result.deletedCount > 0;
+      if (deleted) {
+        await this.publishUnreadCounts([userId], { updateBadges: !deleted.read });
+      }
+
+      return !!deleted;
     } catch (error: any) {
       logger.error('Error deleting notification:', error);
       throw new Error(`Failed to delete notification: ${error.message}`);
@@ -0,0 +1,193 @@
+import crypto from 'crypto';
+import logger from '../config/logger';
+import { getEnv } from '../config/env';
+import PhoneNumber, { IPhoneNumberDocument } from '../models/PhoneNumber';
+import PhoneVerificationSend from '../models/PhoneVerificationSend';
+import { BadRequestError, NotFoundError, TooManyRequestsError } from '../errors/AppError';
+import { getSmsProvider } from './sms';
+
+const E164_REGEX = /^\+[1-9]\d{7,14}$/;
+const MAX_VERIFICATION_ATTEMPTS = 5;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// Failed attempts are counted per window, not per code, so resending does not allow more guesses
+const ATTEMPT_WINDOW_MS = DAY_MS;
+
+function hashCode(userId: string, code: string): string {
+  return crypto.createHash('sha256').update(`${userId}:${code}`).digest('hex');
+}
+
+export class PhoneNumberService {
+  /**
+   * Normalize a phone number to E.164, throwing if it is not valid
+   */
+  static normalize(phoneNumber: string): string {
+    const normalized = String(phoneNumber || '').replace(/[\s\-().]/g, '');
+    if (!E164_REGEX.test(normalized)) {
+      throw new BadRequestError('Phone number must be in E.164 format, e.g. +919876543210');
+    }
+    return normalized;
+  }
+
+  /**
+   * Get the registered phone number for a user
+   */
+  static async getPhoneNumber(userId: string): Promise<IPhoneNumberDocument | null> {
+    return PhoneNumber.findOne({ userId });
+  }
+
+  /**
+   * Get the verified phone number for a user (null if none is verified)
+   */
+  static async getVerifiedPhoneNumber(userId: string): Promise<string | null> {
+    const phone = await PhoneNumber.findOne({ userId, verified: true }).lean();
+    return phone?.phoneNumber || null;
+  }
+
+  /**
+   * Enforce the resend cooldown and the hourly/daily send caps per user and
+   * per number, which keep verification SMS from being pumped
+   */
+  private static async assertCanSend(userId: string, phoneNumber: string): Promise<void> {
+    const env = getEnv();
+    const now = Date.now();
+
+    const [last, sentLastHour, sentLastDay, sentToNumber] = await Promise.all([
+      PhoneVerificationSend.findOne({ userId }).sort({ createdAt: -1 }).lean(),
+      PhoneVerificationSend.countDocuments({ userId, createdAt: { $gt: new Date(now - HOUR_MS) } }),
+      PhoneVerificationSend.countDocuments({ userId, createdAt: { $gt: new Date(now - DAY_MS) } }),
+      PhoneVerificationSend.countDocuments({ phoneNumber, createdAt: { $gt: new Date(now - DAY_MS) } })
+    ]);
+
+    const waitMs = last ? last.createdAt.getTime() + env.SMS_VERIFICATION_RESEND_COOLDOWN_MS - now : 0;
+    if (waitMs > 0) {
+      throw new TooManyRequestsError(`Please wait ${Math.ceil(waitMs / 1000)} seconds before requesting another code`);
+    }
+    if (sentLastHour >= env.SMS_VERIFICATION_MAX_PER_HOUR || sentLastDay >= env.SMS_VERIFICATION_MAX_PER_DAY) {
+      throw new TooManyRequestsError('Too many verification codes requested, please try again later');
+    }
+    if (sentToNumber >= env.SMS_VERIFICATION_MAX_PER_NUMBER_PER_DAY) {
+      throw new TooManyRequestsError('Too many verification codes sent to this number, please try again later');
+    }
+  }
+
+  /**
+   * Register a phone number and send a verification code to it. Changing a
+   * verified number keeps the old one in use until the new one is verified.
+   */
+  static async startVerification(userId: string, phoneNumber: string): Promise<IPhoneNumberDocument> {
+    const normalized = this.normalize(phoneNumber);
+    const existing = await PhoneNumber.findOne({ userId });
+
+    if (existing?.verified && existing.phoneNumber === normalized) {
+      if (existing.pendingPhoneNumber) {
+        // Asking for the current number again cancels the pending change
+        existing.pendingPhoneNumber = undefined;
+        existing.verificationCodeHash = undefined;
+        existing.verificationExpiresAt = undefined;
+        await existing.save();
+      }
+      return existing;
+    }
+
+    const now = new Date();
+    const windowExpired = !existing?.verificationWindowStartedAt ||
+      existing.verificationWindowStartedAt.getTime() < now.getTime() - ATTEMPT_WINDOW_MS;
+    if (!windowExpired && existing!.verificationAttempts >= MAX_VERIFICATION_ATTEMPTS) {
+      throw new TooManyRequestsError('Too many verification attempts, please try again later');
+    }
+
+    await this.assertCanSend(userId, normalized);
+
+    const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+    const env = getEnv();
+
+    const update: Record<string, any> = {
+      verificationCodeHash: hashCode(userId, code),
+      verificationExpiresAt: new Date(now.getTime() + env.SMS_VERIFICATION_CODE_TTL_MS),
+      ...(windowExpired && { verificationAttempts: 0, verificationWindowStartedAt: now })
+    };
+    if (existing?.verified) {
+      update.pendingPhoneNumber = normalized;
+    } else {
+      update.phoneNumber = normalized;
+      update.verified = false;
+      update.$unset = { verifiedAt: 1, pendingPhoneNumber: 1 };
+    }
+
+    const phone = await PhoneNumber.findOneAndUpdate(
+      { userId },
+      update,
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+
+    await PhoneVerificationSend.create({
+      userId,
+      phoneNumber: normalized,
+      expiresAt: new Date(now.getTime() + DAY_MS)
+    });
+
+    await getSmsProvider().send({
+      to: normalized,
+      body: `${code} is your ExtraHand verification code.`
+    });
+
+    logger.info(`Sent phone verification code for user: ${userId}`);
+    return phone!;
+  }
+
+  /**
+   * Verify a phone number with the code sent by startVerification
+   */
+  static async verify(userId: string, code: string): Promise<IPhoneNumberDocument> {
+    const phone = await PhoneNumber.findOne({ userId }).select('+verificationCodeHash');
+
+    if (!phone) {
+      throw new NotFoundError('No phone number registered');
+    }
+
+    if (phone.verified && !phone.pendingPhoneNumber) {
+      return phone;
+    }
+
+    if (!phone.verificationCodeHash || !phone.verificationExpiresAt || phone.verificationExpiresAt < new Date()) {
+      throw new BadRequestError('Verification code expired, please request a new one');
+    }
+
+    if (phone.verificationAttempts >= MAX_VERIFICATION_ATTEMPTS) {
+      throw new TooManyRequestsError('Too many verification attempts, please try again later');
+    }
+
+    if (hashCode(userId, String(code)) !== phone.verificationCodeHash) {
+      phone.verificationAttempts += 1;
+      await phone.save();
+      throw new BadRequestError('Invalid verification code');
+    }
+
+    if (phone.pendingPhoneNumber) {
+      phone.phoneNumber = phone.pendingPhoneNumber;
+      phone.pendingPhoneNumber = undefined;
+    }
+    phone.verified = true;
+    phone.verifiedAt = new Date();
+    phone.verificationCodeHash = undefined;
+    phone.verificationExpiresAt = undefined;
+    phone.verificationAttempts = 0;
+    phone.verificationWindowStartedAt = undefined;
+    await phone.save();
+
+    logger.info(`Verified phone number for user: ${userId}`);
+    return phone;
+  }
+
+  /**
+   * Remove a user's phone number
+   */
+  static async removePhoneNumber(userId: string): Promise<void> {
+    const result = await PhoneNumber.deleteOne({ userId });
+    if (result.deletedCount === 0) {
+      throw new NotFoundError('No phone number registered');
+    }
+    logger.info(`Removed phone number for user: ${userId}`);
+  }
+}
@@ -0,0 +1,333 @@
+import mongoose from 'mongoose';
+import logger from '../config/logger';
+import { getEnv } from '../config/env';
+import NotificationJob, {
+  INotificationJobDocument,
+  INotificationJobError,
+  NotificationJobKind
+} from '../models/NotificationJob';
+import DeadLetterJob, { IDeadLetterJobDocument } from '../models/DeadLetterJob';
+import { ConflictError, NotFoundError } from '../errors/AppError';
+import { isRetryableFcmError, sendMulticast } from './push/fcm';
+import { DeliveryLogService } from './DeliveryLogService';
+
+type JobHandlerResult =
+  | { status: 'completed' }
+  | { status: 'retry'; payload?: Record<string, any>; error: { code?: string; message: string } };
+
+type JobHandler = (job: INotificationJobDocument) => Promise<JobHandlerResult>;
+
+const COMPLETED_JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+/**
+ * Retry a push to the tokens that failed with a transient FCM error
+ */
+async function handlePushJob(job: INotificationJobDocument): Promise<JobHandlerResult> {
+  const { notificationId, userId, category, type, title, tokens, message } = job.payload;
+  const outcome = await sendMulticast(tokens, message);
+
+  if (notificationId) {
+    await DeliveryLogService.record({
+      notificationId,
+      userId,
+      channel: 'push',
+      category,
+      type,
+      title,
+      // The first attempt happened inline before the job was queued
+      attempt: job.attempts + 1,
+      jobId: String(job._id),
+      outcomes: DeliveryLogService.toPushOutcomes(outcome, tokens.map((token: string) => ({ token }))),
+      queued: job.attempts < job.maxAttempts ? outcome.retryableTokens.length : 0
+    });
+  }
+
+  logger.info('Retried push notification', {
+    jobId: job._id,
+    userId,
+    type,
+    attempt: job.attempts,
+    sent: outcome.successCount,
+    failed: outcome.failureCount,
+    retryable: outcome.retryableTokens.length
+  });
+
+  if (outcome.retryableTokens.length === 0) {
+    return { status: 'completed' };
+  }
+
+  const firstError = outcome.error ||
+    outcome.responses.find(resp => !resp.success && isRetryableFcmError(resp.error?.code))?.error;
+
+  return {
+    status: 'retry',
+    payload: { ...job.payload, tokens: outcome.retryableTokens },
+    error: { code: firstError?.code, message: firstError?.message || 'Transient FCM error' }
+  };
+}
+
+export class QueueService {
+  private static timer: NodeJS.Timeout | null = null;
+  private static stopped = true;
+
+  private static handlers: Record<NotificationJobKind, JobHandler> = {
+    push: handlePushJob
+  };
+
+  /**
+   * Exponential backoff with jitter: a random delay between 50% and 100%
+   * of min(base * 2^(attempt - 1), max)
+   */
+  static computeBackoffMs(attempt: number): number {
+    const env = getEnv();
+    const exponential = Math.min(
+      env.QUEUE_BACKOFF_BASE_MS * Math.pow(2, Math.max(attempt - 1, 0)),
+      env.QUEUE_BACKOFF_MAX_MS
+    );
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  }
+
+  /**
+   * Add a job to the queue
+   */
+  static async enqueue(
+    kind: NotificationJobKind,
+    payload: Record<string, any>,
+    options: { delayMs?: number; maxAttempts?: number } = {}
+  ): Promise<INotificationJobDocument> {
+    const env = getEnv();
+    const job = await NotificationJob.create({
+      kind,
+      payload,
+      maxAttempts: options.maxAttempts ?? env.QUEUE_MAX_ATTEMPTS,
+      nextAttemptAt: new Date(Date.now() + (options.delayMs ?? 0))
+    });
+
+    logger.info(`Enqueued ${kind} job`, { jobId: job._id, nextAttemptAt: job.nextAttemptAt });
+    return job;
+  }
+
+  /**
+   * Atomically claim the next due job. Jobs stuck in processing longer than
+   * the lock timeout (e.g. after a crash) are claimed again.
+   */
+  private static async claimNextJob(): Promise<INotificationJobDocument | null> {
+    const env = getEnv();
+    const now = new Date();
+
+    return NotificationJob.findOneAndUpdate(
+      {
+        $or: [
+          { status: 'pending', nextAttemptAt: { $lte: now } },
+          { status: 'processing', lockedAt: { $lte: new Date(now.getTime() - env.QUEUE_LOCK_TIMEOUT_MS) } }
+        ]
+      },
+      {
+        $set: { status: 'processing', lockedAt: now },
+        $inc: { attempts: 1 }
+      },
+      { sort: { nextAttemptAt: 1 }, new: true }
+    );
+  }
+
+  /**
+   * Process up to QUEUE_BATCH_SIZE due jobs. Returns the number processed.
+   */
+  static async processDueJobs(): Promise<number> {
+    const env = getEnv();
+    let processed = 0;
+
+    while (processed < env.QUEUE_BATCH_SIZE) {
+      const job = await this.claimNextJob();
+      if (!job) {
+        break;
+      }
+      await this.runJob(job);
+      processed++;
+    }
+
+    return processed;
+  }
+
+  private static async runJob(job: INotificationJobDocument): Promise<void> {
+    let result: JobHandlerResult;
+
+    try {
+      result = await this.handlers[job.kind](job);
+    } catch (error: any) {
+      result = { status: 'retry', error: { code: error.code, message: error.message || 'Job handler failed' } };
+    }
+
+    if (result.status === 'completed') {
+      await NotificationJob.updateOne(
+        { _id: job._id },
+        {
+          $set: {
+            status: 'completed',
+            completedAt: new Date(),
+            expiresAt: new Date(Date.now() + COMPLETED_JOB_RETENTION_MS)
+          },
+          $unset: { lockedAt: 1 }
+        }
+      );
+      return;
+    }
+
+    const jobError: INotificationJobError = { ...result.error, at: new Date() };
+    const payload = result.payload || job.payload;
+
+    if (job.attempts >= job.maxAttempts) {
+      await this.moveToDeadLetter(job, payload, jobError);
+      return;
+    }
+
+    const delayMs = this.computeBackoffMs(job.attempts);
+    await NotificationJob.updateOne(
+      { _id: job._id },
+      {
+        $set: {
+          status: 'pending',
+          payload,
+          lastError: jobError,
+          nextAttemptAt: new Date(Date.now() + delayMs)
+        },
+        $push: { errorHistory: jobError },
+        $unset: { lockedAt: 1 }
+      }
+    );
+
+    logger.warn(`Job ${job._id} failed, retrying in ${delayMs}ms`, {
+      kind: job.kind,
+      attempt: job.attempts,
+      maxAttempts: job.maxAttempts,
+      error: jobError.message
+    });
+  }
+
+  private static async moveToDeadLetter(
+    job: INotificationJobDocument,
+    payload: Record<string, any>,
+    jobError: INotificationJobError
+  ): Promise<void> {
+    await DeadLetterJob.create({
+      originalJobId: String(job._id),
+      kind: job.kind,
+      payload,
+      attempts: job.attempts,
+      lastError: jobError,
+      errorHistory: [...job.errorHistory, jobError],
+      failedAt: new Date()
+    });
+    await NotificationJob.deleteOne({ _id: job._id });
+
+    logger.error(`Job ${job._id} exhausted ${job.attempts} attempts, moved to dead-letter`, {
+      kind: job.kind,
+      error: jobError.message
+    });
+  }
+
+  /**
+   * Start the worker loop
+   */
+  static start(): void {
+    const env = getEnv();
+    if (!env.QUEUE_ENABLED || !this.stopped) {
+      return;
+    }
+
+    this.stopped = false;
+
+    const tick = async () => {
+      try {
+        await this.processDueJobs();
+      } catch (error) {
+        logger.error('Queue worker tick failed:', error);
+      }
+      if (!this.stopped) {
+        this.timer = setTimeout(tick, env.QUEUE_POLL_INTERVAL_MS);
+      }
+    };
+
+    this.timer = setTimeout(tick, env.QUEUE_POLL_INTERVAL_MS);
+    logger.info('📬 Notification queue worker started');
+  }
+
+  /**
+   * Stop the worker loop
+   */
+  static stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * List dead-lettered jobs, most recent first
+   */
+  static async listDeadLetters(options: {
+    kind?: string;
+    replayed?: boolean;
+    limit: number;
+    skip: number;
+  }): Promise<{ deadLetters: IDeadLetterJobDocument[]; total: number }> {
+    const query: Record<string, any> = {};
+    if (options.kind) {
+      query.kind = options.kind;
+    }
+    if (options.replayed !== undefined) {
+      query.replayedAt = { $exists: options.replayed };
+    }
+
+    const [deadLetters, total] = await Promise.all([
+      DeadLetterJob.find(query).sort({ failedAt: -1 }).skip(options.skip).limit(options.limit).lean(),
+      DeadLetterJob.countDocuments(query)
+    ]);
+
+    return { deadLetters: deadLetters as unknown as IDeadLetterJobDocument[], total };
+  }
+
+  /**
+   * Get a single dead-lettered job
+   */
+  static async getDeadLetter(id: string): Promise<IDeadLetterJobDocument> {
+    const deadLetter = mongoose.isValidObjectId(id) ? await DeadLetterJob.findById(id) : null;
+    if (!deadLetter) {
+      throw new NotFoundError('Dead-letter job not found');
+    }
+    return deadLetter;
+  }
+
+  /**
+   * Put a dead-lettered job back on the queue with a fresh attempt budget
+   */
+  static async replayDeadLetter(id: string): Promise<INotificationJobDocument> {
+    const deadLetter = await this.getDeadLetter(id);
+
+    // Claim the replay atomically so concurrent requests cannot enqueue it twice
+    const claimed = await DeadLetterJob.findOneAndUpdate(
+      { _id: deadLetter._id, replayedAt: { $exists: false } },
+      { $set: { replayedAt: new Date() } },
+      { new: true }
+    );
+
+    if (!claimed) {
+      throw new ConflictError('Dead-letter job already replayed');
+    }
+
+    let job: INotificationJobDocument;
+    try {
+      job = await this.enqueue(claimed.kind, claimed.payload);
+    } catch (error) {
+      // Release the claim so the replay can be tried again
+      await DeadLetterJob.updateOne({ _id: claimed._id, replayJobId: { $exists: false } }, { $unset: { replayedAt: 1 } });
+      throw error;
+    }
+    claimed.replayJobId = String(job._id);
+    await claimed.save();
+
+    logger.info(`Replayed dead-letter job ${id} as job ${job._id}`);
+    return job;
+  }
+}
@@ -0,0 +1,116 @@
+import { Request, Response } from 'express';
+import logger from '../config/logger';
+import { getEnv } from '../config/env';
+import { TooManyRequestsError } from '../errors/AppError';
+import { getRealtimeBus, RealtimeEvent, RealtimeEventName } from './realtime';
+
+export class RealtimeService {
+  private static connections = new Map<string, Set<Response>>();
+  private static unsubscribe: (() => void) | null = null;
+
+  /**
+   * Subscribe to the realtime bus. Called lazily on the first stream connection.
+   */
+  static start(): void {
+    if (this.unsubscribe) {
+      return;
+    }
+    this.unsubscribe = getRealtimeBus().subscribe(event => this.deliver(event));
+  }
+
+  /**
+   * Close every open stream and the bus subscription
+   */
+  static async stop(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+
+    for (const responses of this.connections.values()) {
+      for (const res of responses) {
+        res.end();
+      }
+    }
+    this.connections.clear();
+
+    await getRealtimeBus().close();
+  }
+
+  /**
+   * Turn a request into a Server-Sent Events stream for a user. The initial
+   * unread count is sent immediately, followed by events as they happen.
+   * Throws TooManyRequestsError when the user already has the maximum number of streams open.
+   */
+  static connect(req: Request, res: Response, userId: string, unreadCount: number): void {
+    const env = getEnv();
+    if ((this.connections.get(userId)?.size || 0) >= env.REALTIME_MAX_STREAMS_PER_USER) {
+      throw new TooManyRequestsError(`At most ${env.REALTIME_MAX_STREAMS_PER_USER} notification streams can be open at once`);
+    }
+
+    this.start();
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    // no-transform keeps the compression middleware from buffering events
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    res.write('retry: 5000\n\n');
+    this.write(res, 'unread-count', { count: unreadCount });
+
+    let responses = this.connections.get(userId);
+    if (!responses) {
+      responses = new Set();
+      this.connections.set(userId, responses);
+    }
+    responses.add(res);
+
+    // Comment lines keep proxies from closing idle connections
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), env.REALTIME_HEARTBEAT_MS);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      responses!.delete(res);
+      if (responses!.size === 0) {
+        this.connections.delete(userId);
+      }
+      logger.debug(`Realtime stream closed for user: ${userId}`);
+    });
+
+    logger.debug(`Realtime stream opened for user: ${userId}`, { connections: responses.size });
+  }
+
+  /**
+   * Publish an event to a user's open streams on every instance. Never throws;
+   * streaming is best effort and clients can always fall back to polling.
+   */
+  static async publish(userId: string, event: RealtimeEventName, data: Record<string, any>): Promise<void> {
+    const bus = getRealtimeBus();
+
+    // Nobody can be listening elsewhere when the bus is in-process
+    if (bus.name === 'local' && !this.connections.has(userId)) {
+      return;
+    }
+
+    try {
+      await bus.publish({ userId, event, data });
+    } catch (error: any) {
+      logger.error('Error publishing realtime event:', { userId, event, error: error.message });
+    }
+  }
+
+  private static deliver(event: RealtimeEvent): void {
+    const responses = this.connections.get(event.userId);
+    if (!responses) {
+      return;
+    }
+    for (const res of responses) {
+      this.write(res, event.event, event.data);
+    }
+  }
+
+  private static write(res: Response, event: RealtimeEventName, data: Record<string, any>): void {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+}
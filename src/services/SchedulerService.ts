@@ -0,0 +1,309 @@
+import mongoose from 'mongoose';
+import logger from '../config/logger';
+import { getEnv } from '../config/env';
+import ScheduledNotification, {
+  IScheduledNotificationDocument,
+  ScheduledNotificationKind,
+  ScheduledNotificationStatus
+} from '../models/ScheduledNotification';
+import { NotFoundError, ConflictError } from '../errors/AppError';
+import { BatchChannelResult } from '../types';
+import { NotificationService } from './NotificationService';
+
+const FINISHED_RETENTION_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+export class SchedulerService {
+  private static timer: NodeJS.Timeout | null = null;
+  private static stopped = true;
+
+  /**
+   * Persist a notification to be sent at `sendAt`
+   */
+  static async schedule(data: {
+    kind: ScheduledNotificationKind;
+    userIds: string[];
+    payload: Record<string, any>;
+    sendAt: Date;
+    groupKey?: string;
+    createdBy?: string;
+  }): Promise<IScheduledNotificationDocument> {
+    const scheduled = await ScheduledNotification.create({
+      kind: data.kind,
+      userIds: data.userIds,
+      payload: data.payload,
+      sendAt: data.sendAt,
+      groupKey: data.groupKey,
+      createdBy: data.createdBy
+    });
+
+    logger.info(`Scheduled ${data.kind} notification`, {
+      scheduledId: scheduled._id,
+      sendAt: data.sendAt,
+      groupKey: data.groupKey,
+      users: data.userIds.length
+    });
+
+    return scheduled;
+  }
+
+  /**
+   * Move a user's pending deferred sends held back for `reason` to `sendAt`,
+   * e.g. when do-not-disturb is ended early
+   */
+  static async rescheduleDeferred(userId: string, reason: 'dnd', sendAt: Date): Promise<number> {
+    const result = await ScheduledNotification.updateMany(
+      { kind: 'deferred', userIds: userId, status: 'scheduled', 'payload.reason': reason },
+      { $set: { sendAt } }
+    );
+    if (result.modifiedCount > 0) {
+      logger.info(`Rescheduled ${result.modifiedCount} deferred notifications`, { userId, reason, sendAt });
+    }
+    return result.modifiedCount;
+  }
+
+  /**
+   * Send a scheduled notification now
+   */
+  private static async execute(scheduled: IScheduledNotificationDocument): Promise<Record<string, any>> {
+    const { payload } = scheduled;
+
+    switch (scheduled.kind) {
+      case 'send': {
+        const result = await NotificationService.sendOnChannels(scheduled.userIds, payload.notification, payload.channels);
+        // Keep the per-channel summaries; per-user results can be very large
+        const summarize = (channel?: BatchChannelResult) => {
+          if (!channel) {
+            return undefined;
+          }
+          const { results: _results, ...summary } = channel;
+          return summary;
+        };
+        return { push: summarize(result.push), sms: summarize(result.sms) };
+      }
+      case 'in_app': {
+        const { notification, held } = await NotificationService.createInAppNotification(payload as any);
+        return held || { notificationId: String(notification._id) };
+      }
+      case 'deferred': {
+        const [userId] = scheduled.userIds;
+        const options = { notificationId: payload.notificationId };
+        switch (payload.channel) {
+          case 'sms':
+            return NotificationService.sendSmsNotification(userId, payload.notification, options);
+          case 'email':
+            return NotificationService.sendEmailNotification(userId, payload.notification, options);
+          default:
+            return NotificationService.sendPushNotification(userId, payload.notification, options);
+        }
+      }
+    }
+  }
+
+  /**
+   * Execute a claimed notification while refreshing its lock, so a send that
+   * takes longer than the lock timeout is not claimed and sent again by another instance
+   */
+  private static async executeLocked(scheduled: IScheduledNotificationDocument): Promise<Record<string, any>> {
+    const heartbeat = setInterval(() => {
+      ScheduledNotification.updateOne({ _id: scheduled._id, status: 'processing' }, { $set: { lockedAt: new Date() } })
+        .catch(error => logger.error(`Error refreshing lock of scheduled notification ${scheduled._id}:`, { error: error.message }));
+    }, Math.max(getEnv().QUEUE_LOCK_TIMEOUT_MS / 3, 1000));
+
+    try {
+      return await this.execute(scheduled);
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /**
+   * Atomically claim the next due notification. Notifications stuck in
+   * processing longer than the lock timeout (e.g. after a crash) are claimed again.
+   */
+  private static async claimNext(): Promise<IScheduledNotificationDocument | null> {
+    const env = getEnv();
+    const now = new Date();
+
+    return ScheduledNotification.findOneAndUpdate(
+      {
+        $or: [
+          { status: 'scheduled', sendAt: { $lte: now } },
+          { status: 'processing', lockedAt: { $lte: new Date(now.getTime() - env.QUEUE_LOCK_TIMEOUT_MS) } }
+        ]
+      },
+      { $set: { status: 'processing', lockedAt: now } },
+      { sort: { sendAt: 1 }, new: true }
+    );
+  }
+
+  /**
+   * Send up to SCHEDULER_BATCH_SIZE due notifications. Returns the number processed.
+   */
+  static async processDue(): Promise<number> {
+    const env = getEnv();
+    let processed = 0;
+
+    while (processed < env.SCHEDULER_BATCH_SIZE) {
+      const scheduled = await this.claimNext();
+      if (!scheduled) {
+        break;
+      }
+
+      try {
+        const result = await this.executeLocked(scheduled);
+        await ScheduledNotification.updateOne(
+          { _id: scheduled._id },
+          {
+            $set: {
+              status: 'sent',
+              sentAt: new Date(),
+              result,
+              expiresAt: new Date(Date.now() + FINISHED_RETENTION_MS)
+            },
+            $unset: { lockedAt: 1 }
+          }
+        );
+        logger.info(`Sent scheduled notification ${scheduled._id}`, { kind: scheduled.kind });
+      } catch (error: any) {
+        await ScheduledNotification.updateOne(
+          { _id: scheduled._id },
+          {
+            $set: {
+              status: 'failed',
+              error: error.message,
+              expiresAt: new Date(Date.now() + FINISHED_RETENTION_MS)
+            },
+            $unset: { lockedAt: 1 }
+          }
+        );
+        logger.error(`Failed to send scheduled notification ${scheduled._id}:`, error);
+      }
+
+      processed++;
+    }
+
+    return processed;
+  }
+
+  /**
+   * Start the scheduler loop
+   */
+  static start(): void {
+    const env = getEnv();
+    if (!env.SCHEDULER_ENABLED || !this.stopped) {
+      return;
+    }
+
+    this.stopped = false;
+
+    const tick = async () => {
+      try {
+        await this.processDue();
+      } catch (error) {
+        logger.error('Scheduler tick failed:', error);
+      }
+      if (!this.stopped) {
+        this.timer = setTimeout(tick, env.SCHEDULER_POLL_INTERVAL_MS);
+      }
+    };
+
+    this.timer = setTimeout(tick, env.SCHEDULER_POLL_INTERVAL_MS);
+    logger.info('⏰ Notification scheduler started');
+  }
+
+  /**
+   * Stop the scheduler loop
+   */
+  static stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * List scheduled notifications, soonest first
+   */
+  static async list(filters: {
+    userId?: string;
+    groupKey?: string;
+    status?: ScheduledNotificationStatus;
+    limit: number;
+    skip: number;
+  }): Promise<{ scheduled: IScheduledNotificationDocument[]; total: number }> {
+    const query: Record<string, any> = { status: filters.status || 'scheduled' };
+    if (filters.userId) {
+      query.userIds = filters.userId;
+    }
+    if (filters.groupKey) {
+      query.groupKey = filters.groupKey;
+    }
+
+    const [scheduled, total] = await Promise.all([
+      ScheduledNotification.find(query).sort({ sendAt: 1 }).skip(filters.skip).limit(filters.limit).lean(),
+      ScheduledNotification.countDocuments(query)
+    ]);
+
+    return { scheduled: scheduled as unknown as IScheduledNotificationDocument[], total };
+  }
+
+  /**
+   * Get a scheduled notification by id
+   */
+  static async get(id: string): Promise<IScheduledNotificationDocument> {
+    const scheduled = mongoose.isValidObjectId(id) ? await ScheduledNotification.findById(id) : null;
+    if (!scheduled) {
+      throw new NotFoundError('Scheduled notification not found');
+    }
+    return scheduled;
+  }
+
+  /**
+   * Cancel a pending scheduled notification by id
+   */
+  static async cancel(id: string): Promise<IScheduledNotificationDocument> {
+    const existing = await this.get(id);
+
+    const cancelled = await ScheduledNotification.findOneAndUpdate(
+      { _id: existing._id, status: 'scheduled' },
+      {
+        $set: {
+          status: 'cancelled',
+          cancelledAt: new Date(),
+          expiresAt: new Date(Date.now() + FINISHED_RETENTION_MS)
+        }
+      },
+      { new: true }
+    );
+
+    if (!cancelled) {
+      throw new ConflictError(`Scheduled notification is already ${existing.status}`);
+    }
+
+    logger.info(`Cancelled scheduled notification ${id}`);
+    return cancelled;
+  }
+
+  /**
+   * Cancel every pending scheduled notification in a group
+   */
+  static async cancelGroup(groupKey: string): Promise<{ cancelledCount: number }> {
+    const result = await ScheduledNotification.updateMany(
+      { groupKey, status: 'scheduled' },
+      {
+        $set: {
+          status: 'cancelled',
+          cancelledAt: new Date(),
+          expiresAt: new Date(Date.now() + FINISHED_RETENTION_MS)
+        }
+      }
+    );
+
+    logger.info(`Cancelled scheduled notifications for group ${groupKey}`, {
+      cancelledCount: result.modifiedCount
+    });
+
+    return { cancelledCount: result.modifiedCount };
+  }
+}
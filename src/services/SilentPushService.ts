@@ -0,0 +1,125 @@
+import { randomUUID } from 'crypto';
+import logger from '../config/logger';
+import FCMToken from '../models/FCMToken';
+import { IDeliveryOutcome } from '../models/NotificationDelivery';
+import { BadRequestError } from '../errors/AppError';
+import { buildSilentPushMessage, sendMulticast } from './push/fcm';
+import { parsePushOptions } from './push/pushOptions';
+import { DeliveryLogService, DeliveryRecord } from './DeliveryLogService';
+
+// FCM accepts at most 500 tokens per multicast
+const MULTICAST_CHUNK_SIZE = 500;
+// FCM rejects data payloads over 4KB
+const MAX_DATA_BYTES = 4000;
+const MAX_SILENT_USERS = 1000;
+
+const SILENT_TYPE_PATTERN = /^[a-z0-9_.-]{1,64}$/;
+const RESERVED_DATA_KEYS = ['from', 'notification', 'message_type', 'collapse_key'];
+const RESERVED_DATA_PREFIXES = ['google.', 'gcm.'];
+
+// Request fields that would make a message user-visible
+const VISIBLE_FIELDS = ['title', 'body', 'imageUrl', 'actions', 'deepLink', 'sms', 'email', 'category'];
+
+export interface SilentPushMessage {
+  type: string; // e.g. "sync_chat", "sync_task", "refresh_badge"
+  data?: Record<string, string>;
+  ttl?: number;
+  collapseKey?: string;
+}
+
+export class SilentPushService {
+  /**
+   * Validate a silent push request. Anything that would show a notification
+   * is rejected, so the preference bypass cannot be used for visible messages.
+   */
+  static validate(input: Record<string, any>): SilentPushMessage {
+    const visible = VISIBLE_FIELDS.filter(field => input[field] !== undefined);
+    if (visible.length > 0) {
+      throw new BadRequestError(`Silent pushes cannot include ${visible.join(', ')}`);
+    }
+
+    if (typeof input.type !== 'string' || !SILENT_TYPE_PATTERN.test(input.type)) {
+      throw new BadRequestError(`type must match ${SILENT_TYPE_PATTERN}`);
+    }
+
+    const data: Record<string, string> = {};
+    if (input.data !== undefined) {
+      if (!input.data || typeof input.data !== 'object' || Array.isArray(input.data)) {
+        throw new BadRequestError('data must be an object');
+      }
+      for (const [key, value] of Object.entries(input.data)) {
+        if (key === 'type' || RESERVED_DATA_KEYS.includes(key) || RESERVED_DATA_PREFIXES.some(p => key.startsWith(p))) {
+          throw new BadRequestError(`data.${key} is reserved`);
+        }
+        // FCM data values must be strings
+        data[key] = typeof value === 'string' ? value : JSON.stringify(value);
+      }
+      if (Buffer.byteLength(JSON.stringify(data)) > MAX_DATA_BYTES) {
+        throw new BadRequestError(`data must be at most ${MAX_DATA_BYTES} bytes`);
+      }
+    }
+
+    const { ttl, collapseKey } = parsePushOptions({ ttl: input.ttl, collapseKey: input.collapseKey });
+
+    return { type: input.type, data, ttl, collapseKey };
+  }
+
+  /**
+   * Send a data-only push to every iOS and Android device of the given users.
+   * Preferences, quiet hours and digests do not apply because nothing is shown.
+   * Web tokens are skipped: browsers must show a notification for every push.
+   * Failures are not retried; the next sync trigger supersedes a lost one.
+   */
+  static async send(userIds: string[], message: SilentPushMessage): Promise<{
+    users: number;
+    sent: number;
+    failed: number;
+    noTokens: number;
+  }> {
+    const uniqueUserIds = Array.from(new Set(userIds));
+    if (uniqueUserIds.length > MAX_SILENT_USERS) {
+      throw new BadRequestError(`Silent pushes can target at most ${MAX_SILENT_USERS} users per request`);
+    }
+
+    const tokens = await FCMToken.find({ userId: { $in: uniqueUserIds }, platform: { $ne: 'web' } })
+      .select('userId token platform')
+      .lean();
+
+    const fcmMessage = buildSilentPushMessage(message);
+    const outcomes = new Map<string, IDeliveryOutcome>();
+
+    for (let i = 0; i < tokens.length; i += MULTICAST_CHUNK_SIZE) {
+      const chunk = tokens.slice(i, i + MULTICAST_CHUNK_SIZE);
+      const outcome = await sendMulticast(chunk.map(t => t.token), fcmMessage);
+      for (const deliveryOutcome of DeliveryLogService.toPushOutcomes(outcome, chunk)) {
+        outcomes.set(deliveryOutcome.target, deliveryOutcome);
+      }
+    }
+
+    const records = new Map<string, DeliveryRecord>();
+    for (const token of tokens) {
+      const record = records.get(token.userId) || {
+        notificationId: randomUUID(),
+        userId: token.userId,
+        channel: 'push' as const,
+        type: message.type,
+        outcomes: []
+      };
+      record.outcomes.push(outcomes.get(token.token) ||
+        { target: token.token, platform: token.platform, success: false, errorMessage: 'No response from FCM' });
+      records.set(token.userId, record);
+    }
+    await DeliveryLogService.recordMany(Array.from(records.values()));
+
+    const sent = Array.from(outcomes.values()).filter(o => o.success).length;
+    const summary = {
+      users: uniqueUserIds.length,
+      sent,
+      failed: tokens.length - sent,
+      noTokens: uniqueUserIds.length - records.size
+    };
+
+    logger.info('Silent push sent', { type: message.type, ...summary });
+    return summary;
+  }
+}
@@ -0,0 +1,310 @@
+import logger from '../config/logger';
+import NotificationTemplate, {
+  INotificationTemplateDocument,
+  ITemplateVariant
+} from '../models/NotificationTemplate';
+import { BadRequestError, ConflictError, NotFoundError } from '../errors/AppError';
+import { EmailContent, SmsContent } from '../types';
+import { escapeHtml } from './email';
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+const EVENT_KEY_PATTERN = /^[a-z0-9][a-z0-9._-]{0,99}$/i;
+
+export interface TemplateInput {
+  description?: string;
+  category?: string;
+  defaultLocale?: string;
+  requiredVariables?: string[];
+  locales: Record<string, ITemplateVariant>;
+  createdBy?: string;
+}
+
+export interface RenderedTemplate {
+  eventKey: string;
+  version: number;
+  locale: string;
+  category?: string;
+  title: string;
+  body: string;
+  email: EmailContent;
+  sms: SmsContent;
+}
+
+function lookup(data: Record<string, any>, path: string): unknown {
+  return path.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), data);
+}
+
+/**
+ * Replace {{variable}} placeholders (dot paths allowed) with values from data
+ */
+export function interpolate(
+  template: string,
+  data: Record<string, any>,
+  escape: (value: string) => string = value => value
+): string {
+  return template.replace(VARIABLE_PATTERN, (_match, path: string) => {
+    const value = lookup(data, path);
+    return value == null ? '' : escape(String(value));
+  });
+}
+
+/**
+ * List the variables referenced by a set of template strings
+ */
+export function extractVariables(...templates: Array<string | undefined>): string[] {
+  const variables = new Set<string>();
+  for (const template of templates) {
+    if (!template) continue;
+    for (const match of template.matchAll(VARIABLE_PATTERN)) {
+      variables.add(match[1]);
+    }
+  }
+  return Array.from(variables);
+}
+
+export class TemplateService {
+  /**
+   * Validate template input, throwing BadRequestError on problems
+   */
+  private static validate(input: TemplateInput): void {
+    const locales = Object.keys(input.locales || {});
+    if (locales.length === 0) {
+      throw new BadRequestError('At least one locale variant is required');
+    }
+
+    for (const locale of locales) {
+      const variant = input.locales[locale];
+      if (!variant?.title || !variant?.body) {
+        throw new BadRequestError(`Locale "${locale}" must have a title and body`);
+      }
+    }
+
+    const defaultLocale = input.defaultLocale || 'en';
+    if (!input.locales[defaultLocale]) {
+      throw new BadRequestError(`Default locale "${defaultLocale}" must have a variant`);
+    }
+
+    if (input.requiredVariables && !Array.isArray(input.requiredVariables)) {
+      throw new BadRequestError('requiredVariables must be an array');
+    }
+  }
+
+  private static toDocument(eventKey: string, version: number, input: TemplateInput) {
+    const defaultLocale = input.defaultLocale || 'en';
+    const defaultVariant = input.locales[defaultLocale];
+
+    return {
+      eventKey,
+      version,
+      active: true,
+      description: input.description,
+      category: input.category,
+      defaultLocale,
+      // Default to every variable used by the default locale
+      requiredVariables: input.requiredVariables ?? extractVariables(
+        defaultVariant.title,
+        defaultVariant.body,
+        defaultVariant.emailSubject,
+        defaultVariant.emailHtml,
+        defaultVariant.emailText,
+        defaultVariant.smsBody
+      ),
+      locales: input.locales,
+      createdBy: input.createdBy
+    };
+  }
+
+  /**
+   * Create the first version of a template
+   */
+  static async create(eventKey: string, input: TemplateInput): Promise<INotificationTemplateDocument> {
+    if (!EVENT_KEY_PATTERN.test(eventKey || '')) {
+      throw new BadRequestError('eventKey must be 1-100 letters, digits, ".", "_" or "-"');
+    }
+    this.validate(input);
+
+    const existing = await NotificationTemplate.exists({ eventKey });
+    if (existing) {
+      throw new ConflictError(`Template "${eventKey}" already exists, use PUT to create a new version`);
+    }
+
+    try {
+      const template = await NotificationTemplate.create(this.toDocument(eventKey, 1, input));
+      logger.info(`Created notification template ${eventKey} v1`);
+      return template;
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw new ConflictError(`Template "${eventKey}" already exists`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Publish a new version of a template and make it the active one
+   */
+  static async createVersion(eventKey: string, input: TemplateInput): Promise<INotificationTemplateDocument> {
+    this.validate(input);
+
+    const latest = await NotificationTemplate.findOne({ eventKey }).sort({ version: -1 });
+    if (!latest) {
+      throw new NotFoundError(`Template "${eventKey}" not found`);
+    }
+
+    let template: INotificationTemplateDocument;
+    try {
+      template = await NotificationTemplate.create(this.toDocument(eventKey, latest.version + 1, input));
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw new ConflictError(`Template "${eventKey}" was updated concurrently, please retry`);
+      }
+      throw error;
+    }
+
+    await NotificationTemplate.updateMany(
+      { eventKey, _id: { $ne: template._id } },
+      { active: false }
+    );
+
+    logger.info(`Created notification template ${eventKey} v${template.version}`);
+    return template;
+  }
+
+  /**
+   * Make a previous version the active one (rollback)
+   */
+  static async activateVersion(eventKey: string, version: number): Promise<INotificationTemplateDocument> {
+    const template = await NotificationTemplate.findOneAndUpdate(
+      { eventKey, version },
+      { active: true },
+      { new: true }
+    );
+    if (!template) {
+      throw new NotFoundError(`Template "${eventKey}" v${version} not found`);
+    }
+
+    await NotificationTemplate.updateMany(
+      { eventKey, _id: { $ne: template._id } },
+      { active: false }
+    );
+
+    logger.info(`Activated notification template ${eventKey} v${version}`);
+    return template;
+  }
+
+  /**
+   * Deactivate every version of a template (history is kept)
+   */
+  static async deactivate(eventKey: string): Promise<void> {
+    const result = await NotificationTemplate.updateMany({ eventKey, active: true }, { active: false });
+    if (result.matchedCount === 0) {
+      throw new NotFoundError(`Active template "${eventKey}" not found`);
+    }
+    logger.info(`Deactivated notification template ${eventKey}`);
+  }
+
+  /**
+   * Get the active version of a template, or a specific version
+   */
+  static async get(eventKey: string, version?: number): Promise<INotificationTemplateDocument> {
+    const template = version
+      ? await NotificationTemplate.findOne({ eventKey, version })
+      : await NotificationTemplate.findOne({ eventKey, active: true });
+
+    if (!template) {
+      throw new NotFoundError(
+        version ? `Template "${eventKey}" v${version} not found` : `Active template "${eventKey}" not found`
+      );
+    }
+    return template;
+  }
+
+  /**
+   * List active templates
+   */
+  static async list(options: { category?: string; limit: number; skip: number }): Promise<{
+    templates: INotificationTemplateDocument[];
+    total: number;
+  }> {
+    const query: Record<string, any> = { active: true };
+    if (options.category) {
+      query.category = options.category;
+    }
+
+    const [templates, total] = await Promise.all([
+      NotificationTemplate.find(query).sort({ eventKey: 1 }).skip(options.skip).limit(options.limit),
+      NotificationTemplate.countDocuments(query)
+    ]);
+
+    return { templates, total };
+  }
+
+  /**
+   * List every version of a template, newest first
+   */
+  static async listVersions(eventKey: string): Promise<INotificationTemplateDocument[]> {
+    const versions = await NotificationTemplate.find({ eventKey }).sort({ version: -1 });
+    if (versions.length === 0) {
+      throw new NotFoundError(`Template "${eventKey}" not found`);
+    }
+    return versions;
+  }
+
+  /**
+   * Pick the best variant for a locale: exact match ("hi-IN"), then the
+   * language ("hi"), then the template's default locale
+   */
+  private static resolveLocale(template: INotificationTemplateDocument, locale?: string): string {
+    if (locale) {
+      if (template.locales.has(locale)) {
+        return locale;
+      }
+      const language = locale.split(/[-_]/)[0];
+      if (template.locales.has(language)) {
+        return language;
+      }
+    }
+    return template.defaultLocale;
+  }
+
+  /**
+   * Render the active template for an event with the given data
+   */
+  static async render(
+    eventKey: string,
+    data: Record<string, any> = {},
+    locale?: string
+  ): Promise<RenderedTemplate> {
+    const template = await this.get(eventKey);
+
+    const missing = template.requiredVariables.filter(variable => {
+      const value = lookup(data, variable);
+      return value === undefined || value === null || value === '';
+    });
+    if (missing.length > 0) {
+      throw new BadRequestError(`Missing template variables for "${eventKey}": ${missing.join(', ')}`);
+    }
+
+    const resolvedLocale = this.resolveLocale(template, locale);
+    const variant = template.locales.get(resolvedLocale)!;
+    const title = interpolate(variant.title, data);
+    const body = interpolate(variant.body, data);
+
+    return {
+      eventKey,
+      version: template.version,
+      locale: resolvedLocale,
+      category: template.category,
+      title,
+      body,
+      email: {
+        subject: variant.emailSubject ? interpolate(variant.emailSubject, data) : undefined,
+        html: variant.emailHtml ? interpolate(variant.emailHtml, data, escapeHtml) : undefined,
+        text: variant.emailText ? interpolate(variant.emailText, data) : undefined
+      },
+      sms: {
+        body: variant.smsBody ? interpolate(variant.smsBody, data) : undefined
+      }
+    };
+  }
+}
@@ -0,0 +1,318 @@
+import mongoose from 'mongoose';
+import { admin } from '../config/firebase';
+import logger from '../config/logger';
+import { getEnv } from '../config/env';
+import FCMToken from '../models/FCMToken';
+import TokenMaintenanceRun, {
+  IPrunedToken,
+  ITokenMaintenanceRunDocument,
+  TokenMaintenanceTrigger,
+  TokenRemovalReason
+} from '../models/TokenMaintenanceRun';
+import { ConflictError, NotFoundError } from '../errors/AppError';
+import { INVALID_TOKEN_ERROR_CODES } from './push/fcm';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RUN_SAMPLES = 200;
+const VALIDATION_CHUNK_SIZE = 500;
+const REPORT_RETENTION_MS = 90 * DAY_MS;
+// A run still marked running after this long died with its instance
+const RUN_LOCK_TIMEOUT_MS = 60 * 60 * 1000;
+// How often instances check whether a scheduled run is due
+const MAX_POLL_INTERVAL_MS = 10 * 60 * 1000;
+
+type TokenSummary = { _id: unknown; userId: string; token: string; platform: string; lastActive?: Date };
+
+interface RunState {
+  dryRun: boolean;
+  removed: Record<TokenRemovalReason, number>;
+  validated: number;
+  samples: IPrunedToken[];
+}
+
+function addSamples(state: RunState, tokens: TokenSummary[], reason: TokenRemovalReason): void {
+  for (const token of tokens.slice(0, MAX_RUN_SAMPLES - state.samples.length)) {
+    state.samples.push({
+      userId: token.userId,
+      tokenSuffix: token.token.slice(-8),
+      platform: token.platform,
+      reason,
+      lastActive: token.lastActive
+    });
+  }
+}
+
+export class TokenMaintenanceService {
+  private static timer: NodeJS.Timeout | null = null;
+  private static stopped = true;
+
+  /**
+   * Record a new run, failing if another one is in progress on any instance
+   */
+  private static async createRun(
+    trigger: TokenMaintenanceTrigger,
+    options: { dryRun?: boolean; triggeredBy?: string }
+  ): Promise<ITokenMaintenanceRunDocument> {
+    const env = getEnv();
+
+    // Release the lock held by a run whose instance died
+    await TokenMaintenanceRun.updateMany(
+      { status: 'running', startedAt: { $lt: new Date(Date.now() - RUN_LOCK_TIMEOUT_MS) } },
+      { $set: { status: 'failed', error: 'Run did not finish', finishedAt: new Date() } }
+    );
+
+    try {
+      return await TokenMaintenanceRun.create({
+        trigger,
+        triggeredBy: options.triggeredBy,
+        dryRun: options.dryRun === true,
+        settings: {
+          maxAgeDays: env.TOKEN_MAX_AGE_DAYS,
+          maxPerUser: env.TOKEN_MAX_PER_USER,
+          suspectAgeDays: env.TOKEN_SUSPECT_AGE_DAYS,
+          validationLimit: env.TOKEN_VALIDATION_LIMIT
+        },
+        startedAt: new Date()
+      });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw new ConflictError('A token maintenance run is already in progress');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Remove tokens not active for TOKEN_MAX_AGE_DAYS
+   */
+  private static async pruneStale(state: RunState, staleBefore: Date): Promise<void> {
+    const query = { lastActive: { $lt: staleBefore } };
+
+    const samples = await FCMToken.find(query)
+      .select('userId token platform lastActive')
+      .limit(MAX_RUN_SAMPLES - state.samples.length)
+      .lean();
+    addSamples(state, samples, 'stale');
+
+    state.removed.stale = state.dryRun
+      ? await FCMToken.countDocuments(query)
+      : (await FCMToken.deleteMany(query)).deletedCount;
+  }
+
+  /**
+   * Keep only each user's TOKEN_MAX_PER_USER most recently active tokens
+   */
+  private static async enforceUserLimit(state: RunState, staleBefore: Date, maxPerUser: number): Promise<void> {
+    const users = await FCMToken.aggregate<{ _id: string }>([
+      { $match: { lastActive: { $gte: staleBefore } } },
+      { $group: { _id: '$userId', count: { $sum: 1 } } },
+      { $match: { count: { $gt: maxPerUser } } }
+    ]);
+
+    for (const user of users) {
+      const excess = await FCMToken.find({ userId: user._id, lastActive: { $gte: staleBefore } })
+        .sort({ lastActive: -1 })
+        .skip(maxPerUser)
+        .select('userId token platform lastActive')
+        .lean();
+
+      addSamples(state, excess, 'over_limit');
+      state.removed.over_limit += excess.length;
+
+      if (!state.dryRun) {
+        await FCMToken.deleteMany({ _id: { $in: excess.map(token => token._id) } });
+      }
+    }
+  }
+
+  /**
+   * Check tokens idle for TOKEN_SUSPECT_AGE_DAYS with an FCM dry-run send and
+   * remove the ones FCM no longer accepts. Tokens that pass are not checked
+   * again for another TOKEN_SUSPECT_AGE_DAYS.
+   */
+  private static async validateSuspicious(
+    state: RunState,
+    staleBefore: Date,
+    suspectBefore: Date,
+    limit: number
+  ): Promise<void> {
+    const suspicious = await FCMToken.find({
+      lastActive: { $gte: staleBefore, $lt: suspectBefore },
+      $or: [{ lastValidatedAt: { $exists: false } }, { lastValidatedAt: { $lt: suspectBefore } }]
+    })
+      .sort({ lastActive: 1 })
+      .limit(limit)
+      .select('userId token platform lastActive')
+      .lean();
+
+    for (let i = 0; i < suspicious.length; i += VALIDATION_CHUNK_SIZE) {
+      const chunk = suspicious.slice(i, i + VALIDATION_CHUNK_SIZE);
+
+      let response;
+      try {
+        response = await admin.messaging().sendEach(
+          chunk.map(token => ({ token: token.token, data: { type: 'token_check' } })),
+          true
+        );
+      } catch (error: any) {
+        logger.error('FCM token validation request failed:', { error: error.message });
+        return;
+      }
+
+      const invalid = chunk.filter((_token, idx) =>
+        INVALID_TOKEN_ERROR_CODES.includes(response.responses[idx].error?.code || '')
+      );
+      const valid = chunk.filter((_token, idx) => response.responses[idx].success);
+
+      state.validated += chunk.length;
+      state.removed.invalid += invalid.length;
+      addSamples(state, invalid, 'invalid');
+
+      if (!state.dryRun) {
+        await Promise.all([
+          FCMToken.deleteMany({ _id: { $in: invalid.map(token => token._id) } }),
+          FCMToken.updateMany({ _id: { $in: valid.map(token => token._id) } }, { lastValidatedAt: new Date() })
+        ]);
+      }
+    }
+  }
+
+  /**
+   * Run every maintenance step and store the report on the run
+   */
+  private static async execute(run: ITokenMaintenanceRunDocument): Promise<ITokenMaintenanceRunDocument> {
+    const now = Date.now();
+    const staleBefore = new Date(now - run.settings.maxAgeDays * DAY_MS);
+    const suspectBefore = new Date(now - run.settings.suspectAgeDays * DAY_MS);
+    const state: RunState = {
+      dryRun: run.dryRun,
+      removed: { stale: 0, over_limit: 0, invalid: 0 },
+      validated: 0,
+      samples: []
+    };
+
+    try {
+      await this.pruneStale(state, staleBefore);
+      await this.enforceUserLimit(state, staleBefore, run.settings.maxPerUser);
+      await this.validateSuspicious(state, staleBefore, suspectBefore, run.settings.validationLimit);
+      run.status = 'completed';
+    } catch (error: any) {
+      logger.error(`Token maintenance run ${run._id} failed:`, error);
+      run.status = 'failed';
+      run.error = error.message;
+    }
+
+    run.removed = state.removed;
+    run.validated = state.validated;
+    run.samples = state.samples;
+    run.finishedAt = new Date();
+    run.expiresAt = new Date(Date.now() + REPORT_RETENTION_MS);
+    await run.save();
+
+    logger.info(`Token maintenance run ${run._id} ${run.status}`, {
+      dryRun: run.dryRun,
+      ...state.removed,
+      validated: state.validated
+    });
+
+    return run;
+  }
+
+  /**
+   * Start a run in the background and return it right away (admin endpoint)
+   */
+  static async trigger(options: { dryRun?: boolean; triggeredBy?: string }): Promise<ITokenMaintenanceRunDocument> {
+    const run = await this.createRun('manual', options);
+    // Saving the report can still fail; the stale-run check releases the lock later
+    this.execute(run).catch(error => logger.error(`Token maintenance run ${run._id} could not be saved:`, error));
+    return run;
+  }
+
+  /**
+   * Run the scheduled maintenance unless another instance ran it within the interval
+   */
+  static async runIfDue(): Promise<ITokenMaintenanceRunDocument | null> {
+    const env = getEnv();
+
+    const recent = await TokenMaintenanceRun.exists({
+      trigger: 'schedule',
+      startedAt: { $gt: new Date(Date.now() - env.TOKEN_MAINTENANCE_INTERVAL_MS) }
+    });
+    if (recent) {
+      return null;
+    }
+
+    try {
+      return await this.execute(await this.createRun('schedule', {}));
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List maintenance runs, most recent first
+   */
+  static async listRuns(options: { limit: number; skip: number }): Promise<{
+    runs: ITokenMaintenanceRunDocument[];
+    total: number;
+  }> {
+    const [runs, total] = await Promise.all([
+      TokenMaintenanceRun.find().select('-samples').sort({ startedAt: -1 }).skip(options.skip).limit(options.limit).lean(),
+      TokenMaintenanceRun.countDocuments()
+    ]);
+
+    return { runs: runs as unknown as ITokenMaintenanceRunDocument[], total };
+  }
+
+  /**
+   * Get a single run with the removed-token samples
+   */
+  static async getRun(id: string): Promise<ITokenMaintenanceRunDocument> {
+    const run = mongoose.isValidObjectId(id) ? await TokenMaintenanceRun.findById(id) : null;
+    if (!run) {
+      throw new NotFoundError('Token maintenance run not found');
+    }
+    return run;
+  }
+
+  /**
+   * Start the maintenance loop
+   */
+  static start(): void {
+    const env = getEnv();
+    if (!env.TOKEN_MAINTENANCE_ENABLED || !this.stopped) {
+      return;
+    }
+
+    this.stopped = false;
+    const pollIntervalMs = Math.min(env.TOKEN_MAINTENANCE_INTERVAL_MS, MAX_POLL_INTERVAL_MS);
+
+    const tick = async () => {
+      try {
+        await this.runIfDue();
+      } catch (error) {
+        logger.error('Token maintenance tick failed:', error);
+      }
+      if (!this.stopped) {
+        this.timer = setTimeout(tick, pollIntervalMs);
+      }
+    };
+
+    this.timer = setTimeout(tick, pollIntervalMs);
+    logger.info('🧹 Token maintenance worker started');
+  }
+
+  /**
+   * Stop the maintenance loop
+   */
+  static stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,223 @@
+import { admin } from '../config/firebase';
+import logger from '../config/logger';
+import { getEnv } from '../config/env';
+import FCMToken from '../models/FCMToken';
+import TopicSubscription, { ITopicSubscriptionDocument } from '../models/TopicSubscription';
+import { BadRequestError, ForbiddenError } from '../errors/AppError';
+import { InAppNotificationType, NotificationPayload } from '../types';
+import { buildPushMessage } from './push/fcm';
+import {
+  TOPIC_NAME_PATTERN,
+  TopicConditionNode,
+  evaluateTopicCondition,
+  getConditionTopics,
+  parseTopicCondition
+} from './push/topicCondition';
+import { NotificationService } from './NotificationService';
+import { NotificationCategoryService } from './NotificationCategoryService';
+
+// FCM accepts at most 1000 tokens per subscribe/unsubscribe call
+const FCM_TOPIC_BATCH_SIZE = 1000;
+const IN_APP_BATCH_SIZE = 1000;
+
+export interface TopicSendRequest {
+  topic?: string;
+  condition?: string;
+  notification: Omit<NotificationPayload, 'userId'>;
+  inApp?: { type?: InAppNotificationType };
+}
+
+export class TopicService {
+  /**
+   * Validate a topic name, throwing BadRequestError when FCM would reject it
+   */
+  static validateTopic(topic: unknown): string {
+    if (typeof topic !== 'string' || !TOPIC_NAME_PATTERN.test(topic)) {
+      throw new BadRequestError('topic must be 1-900 letters, digits or "-_.~%" characters');
+    }
+    return topic;
+  }
+
+  /**
+   * Check that a user may manage their own subscription to a topic
+   */
+  static assertUserSubscribable(topic: string): void {
+    const prefixes = getEnv().USER_TOPIC_PREFIXES.split(',').map(p => p.trim()).filter(Boolean);
+    if (!prefixes.some(prefix => topic.startsWith(prefix))) {
+      throw new ForbiddenError(`Users can only subscribe to topics starting with: ${prefixes.join(', ')}`);
+    }
+  }
+
+  /**
+   * Subscribe or unsubscribe tokens in FCM. Failures are logged, not thrown:
+   * stored subscriptions stay the source of truth and are re-synced on token registration.
+   */
+  private static async updateFcmSubscriptions(tokens: string[], topic: string, subscribe: boolean): Promise<void> {
+    for (let i = 0; i < tokens.length; i += FCM_TOPIC_BATCH_SIZE) {
+      const batch = tokens.slice(i, i + FCM_TOPIC_BATCH_SIZE);
+      try {
+        const response = subscribe
+          ? await admin.messaging().subscribeToTopic(batch, topic)
+          : await admin.messaging().unsubscribeFromTopic(batch, topic);
+
+        if (response.failureCount > 0) {
+          logger.warn(`Some FCM tokens failed to ${subscribe ? 'subscribe to' : 'unsubscribe from'} topic`, {
+            topic,
+            failureCount: response.failureCount,
+            errors: response.errors.slice(0, 5).map(e => e.error.code)
+          });
+        }
+      } catch (error: any) {
+        logger.error(`Error updating FCM topic subscriptions for ${topic}:`, { error: error.message });
+      }
+    }
+  }
+
+  /**
+   * List a user's topic subscriptions
+   */
+  static async listForUser(userId: string): Promise<ITopicSubscriptionDocument[]> {
+    return TopicSubscription.find({ userId }).sort({ topic: 1 });
+  }
+
+  /**
+   * Subscribe users (and all their devices) to a topic
+   */
+  static async subscribe(userIds: string[], topic: string, subscribedBy?: string): Promise<{ subscribed: number }> {
+    const result = await TopicSubscription.bulkWrite(userIds.map(userId => ({
+      updateOne: {
+        filter: { userId, topic },
+        update: { $setOnInsert: { userId, topic, subscribedBy } },
+        upsert: true
+      }
+    })), { ordered: false });
+
+    const tokens = await FCMToken.find({ userId: { $in: userIds }, muted: { $ne: true } }).distinct('token');
+    await this.updateFcmSubscriptions(tokens, topic, true);
+
+    logger.info(`Subscribed users to topic ${topic}`, {
+      users: userIds.length,
+      newSubscriptions: result.upsertedCount,
+      tokens: tokens.length
+    });
+
+    return { subscribed: result.upsertedCount };
+  }
+
+  /**
+   * Unsubscribe users (and all their devices) from a topic
+   */
+  static async unsubscribe(userIds: string[], topic: string): Promise<{ unsubscribed: number }> {
+    const result = await TopicSubscription.deleteMany({ userId: { $in: userIds }, topic });
+
+    const tokens = await FCMToken.find({ userId: { $in: userIds } }).distinct('token');
+    await this.updateFcmSubscriptions(tokens, topic, false);
+
+    logger.info(`Unsubscribed users from topic ${topic}`, {
+      users: userIds.length,
+      removed: result.deletedCount
+    });
+
+    return { unsubscribed: result.deletedCount };
+  }
+
+  /**
+   * Subscribe a newly registered token to every topic its user follows
+   */
+  static async syncToken(userId: string, token: string): Promise<void> {
+    const topics = await TopicSubscription.find({ userId }).distinct('topic');
+    for (const topic of topics) {
+      await this.updateFcmSubscriptions([token], topic, true);
+    }
+  }
+
+  /**
+   * Unsubscribe a removed (or reassigned) token from its previous user's topics
+   */
+  static async releaseToken(userId: string, token: string): Promise<void> {
+    const topics = await TopicSubscription.find({ userId }).distinct('topic');
+    for (const topic of topics) {
+      await this.updateFcmSubscriptions([token], topic, false);
+    }
+  }
+
+  /**
+   * Resolve the users subscribed to a topic, or matching a condition
+   */
+  static async resolveAudience(target: { topic?: string; condition?: TopicConditionNode }): Promise<string[]> {
+    if (target.topic) {
+      return TopicSubscription.find({ topic: target.topic }).distinct('userId');
+    }
+
+    const condition = target.condition!;
+    const subscriptions = await TopicSubscription.aggregate<{ _id: string; topics: string[] }>([
+      { $match: { topic: { $in: getConditionTopics(condition) } } },
+      { $group: { _id: '$userId', topics: { $addToSet: '$topic' } } }
+    ]);
+
+    return subscriptions
+      .filter(subscription => evaluateTopicCondition(condition, new Set(subscription.topics)))
+      .map(subscription => subscription._id);
+  }
+
+  /**
+   * Broadcast a push to a topic or condition through FCM topic messaging, and
+   * optionally create in-app notifications for the same audience. FCM delivers
+   * the push without per-user checks, so subscribing to a topic is the opt-in:
+   * only uncategorized or essential notifications can be sent this way.
+   */
+  static async send(request: TopicSendRequest): Promise<{
+    messageId: string;
+    inApp?: { total: number; created: number; failed: number };
+  }> {
+    if (!request.topic === !request.condition) {
+      throw new BadRequestError('Exactly one of topic or condition is required');
+    }
+
+    const { category } = request.notification;
+    if (category !== undefined && !NotificationCategoryService.isEssential(await NotificationCategoryService.get(category))) {
+      throw new BadRequestError(
+        'Topic sends bypass category preferences; send without a category (or one with mandatory channels), ' +
+        'or use /send-batch to respect users\' preferences'
+      );
+    }
+
+    const topic = request.topic ? this.validateTopic(request.topic) : undefined;
+    const condition = request.condition ? parseTopicCondition(request.condition) : undefined;
+    const { notification } = request;
+
+    const messageId = await admin.messaging().send({
+      ...buildPushMessage(notification),
+      ...(topic ? { topic } : { condition: request.condition! })
+    });
+
+    logger.info('Sent topic notification', {
+      topic,
+      condition: request.condition,
+      type: notification.type,
+      messageId
+    });
+
+    if (!request.inApp) {
+      return { messageId };
+    }
+
+    const userIds = await this.resolveAudience({ topic, condition });
+    const inApp = { total: userIds.length, created: 0, failed: 0 };
+
+    for (let i = 0; i < userIds.length; i += IN_APP_BATCH_SIZE) {
+      const result = await NotificationService.createInAppBatchNotifications({
+        userIds: userIds.slice(i, i + IN_APP_BATCH_SIZE),
+        title: notification.title,
+        body: notification.body,
+        type: request.inApp.type || 'info',
+        category: notification.category,
+        data: { eventType: notification.type, ...(notification.data || {}) }
+      });
+      inApp.created += result.created;
+      inApp.failed += result.failed;
+    }
+
+    return { messageId, inApp };
+  }
+}
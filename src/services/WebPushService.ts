@@ -0,0 +1,136 @@
+import logger from '../config/logger';
+import { getEnv } from '../config/env';
+import WebPushSubscription, { IWebPushSubscriptionDocument } from '../models/WebPushSubscription';
+import { BadRequestError, NotFoundError } from '../errors/AppError';
+import { isWebPushConfigured, WebPushTarget } from './push/webPush';
+
+const BASE64URL_PATTERN = /^[A-Za-z0-9_-]+={0,2}$/;
+const MAX_SUBSCRIPTIONS_PER_USER = 20;
+
+export interface WebPushSubscriptionInput {
+  endpoint?: string;
+  expirationTime?: number | null;
+  keys?: { p256dh?: string; auth?: string };
+}
+
+export class WebPushService {
+  /**
+   * The VAPID public key browsers pass to pushManager.subscribe()
+   */
+  static getPublicKey(): string {
+    if (!isWebPushConfigured()) {
+      throw new NotFoundError('Web Push is not configured');
+    }
+    return getEnv().VAPID_PUBLIC_KEY!;
+  }
+
+  /**
+   * Validate a PushSubscription as serialized by the browser (subscription.toJSON())
+   */
+  private static validate(subscription: WebPushSubscriptionInput): WebPushTarget & { expirationTime?: Date } {
+    let endpoint: URL;
+    try {
+      endpoint = new URL(subscription?.endpoint || '');
+    } catch {
+      throw new BadRequestError('subscription.endpoint must be a valid URL');
+    }
+    if (endpoint.protocol !== 'https:') {
+      throw new BadRequestError('subscription.endpoint must be an https URL');
+    }
+
+    const { p256dh, auth } = subscription.keys || {};
+    if (typeof p256dh !== 'string' || !BASE64URL_PATTERN.test(p256dh) ||
+      typeof auth !== 'string' || !BASE64URL_PATTERN.test(auth)) {
+      throw new BadRequestError('subscription.keys.p256dh and subscription.keys.auth must be base64url strings');
+    }
+
+    return {
+      endpoint: subscription.endpoint!,
+      keys: { p256dh, auth },
+      ...(subscription.expirationTime && { expirationTime: new Date(subscription.expirationTime) })
+    };
+  }
+
+  /**
+   * Store a browser subscription for a user. An endpoint already stored for
+   * another user (shared browser) moves to this user.
+   */
+  static async register(
+    userId: string,
+    subscription: WebPushSubscriptionInput,
+    meta: { deviceId?: string; userAgent?: string } = {}
+  ): Promise<IWebPushSubscriptionDocument> {
+    if (!isWebPushConfigured()) {
+      throw new BadRequestError('Web Push is not configured');
+    }
+
+    const target = this.validate(subscription);
+
+    const existing = await WebPushSubscription.findOne({ endpoint: target.endpoint });
+    if (!existing) {
+      const count = await WebPushSubscription.countDocuments({ userId });
+      if (count >= MAX_SUBSCRIPTIONS_PER_USER) {
+        // Drop the least recently used browser rather than rejecting the new one
+        const oldest = await WebPushSubscription.findOne({ userId }).sort({ lastActive: 1 });
+        await oldest?.deleteOne();
+      }
+    }
+
+    const stored = await WebPushSubscription.findOneAndUpdate(
+      { endpoint: target.endpoint },
+      {
+        $set: {
+          userId,
+          keys: target.keys,
+          expirationTime: target.expirationTime,
+          deviceId: meta.deviceId,
+          userAgent: meta.userAgent,
+          lastActive: new Date()
+        }
+      },
+      { upsert: true, new: true }
+    );
+
+    logger.info(`${existing ? 'Updated' : 'Registered'} web push subscription for user: ${userId}`);
+    return stored!;
+  }
+
+  /**
+   * Remove one of a user's browser subscriptions
+   */
+  static async remove(userId: string, endpoint: string): Promise<void> {
+    const removed = await WebPushSubscription.findOneAndDelete({ userId, endpoint });
+    if (!removed) {
+      throw new NotFoundError('Web push subscription not found');
+    }
+    logger.info(`Removed web push subscription for user: ${userId}`);
+  }
+
+  /**
+   * List a user's browser subscriptions, most recently active first
+   */
+  static async list(userId: string): Promise<IWebPushSubscriptionDocument[]> {
+    return WebPushSubscription.find({ userId }).sort({ lastActive: -1 });
+  }
+
+  /**
+   * Subscriptions for many users, grouped by user. Empty when Web Push is not configured.
+   */
+  static async getTargets(userIds: string[]): Promise<Map<string, WebPushTarget[]>> {
+    const targets = new Map<string, WebPushTarget[]>();
+    if (!isWebPushConfigured() || userIds.length === 0) {
+      return targets;
+    }
+
+    const subscriptions = await WebPushSubscription.find({ userId: { $in: userIds } })
+      .select('userId endpoint keys')
+      .lean();
+
+    for (const subscription of subscriptions) {
+      const userTargets = targets.get(subscription.userId) || [];
+      userTargets.push({ endpoint: subscription.endpoint, keys: subscription.keys });
+      targets.set(subscription.userId, userTargets);
+    }
+    return targets;
+  }
+}
@@ -0,0 +1,24 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { EmailMessage, EmailSendResult, EmailTransport } from './types';
+
+/**
+ * Writes each message to a JSON file so it can be inspected during local development.
+ */
+export class FileTransport implements EmailTransport {
+  readonly name = 'file';
+
+  constructor(private directory: string) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const messageId = randomUUID();
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(
+      path.join(this.directory, `${Date.now()}-${messageId}.json`),
+      JSON.stringify({ messageId, sentAt: new Date().toISOString(), ...message }, null, 2),
+      'utf8'
+    );
+    return { messageId };
+  }
+}
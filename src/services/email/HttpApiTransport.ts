@@ -0,0 +1,34 @@
+import axios from 'axios';
+import { EmailMessage, EmailSendResult, EmailTransport } from './types';
+
+/**
+ * Sends email through a provider HTTP API that accepts a JSON body of
+ * { from, to, subject, text, html } with a Bearer API key (Resend-style).
+ */
+export class HttpApiTransport implements EmailTransport {
+  readonly name = 'http';
+
+  constructor(private options: { url: string; apiKey: string; timeoutMs?: number }) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const response = await axios.post(
+      this.options.url,
+      {
+        from: message.from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        html: message.html
+      },
+      {
+        headers: {
+          Authorization: `Bearer ${this.options.apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        timeout: this.options.timeoutMs ?? 10000
+      }
+    );
+
+    return { messageId: response.data?.id ?? response.data?.messageId };
+  }
+}
@@ -0,0 +1,20 @@
+import { randomUUID } from 'crypto';
+import { EmailMessage, EmailSendResult, EmailTransport } from './types';
+
+/**
+ * Keeps sent messages in memory. Intended for tests and local development.
+ */
+export class MemoryTransport implements EmailTransport {
+  readonly name = 'memory';
+  readonly sent: Array<EmailMessage & { messageId: string; sentAt: Date }> = [];
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const messageId = randomUUID();
+    this.sent.push({ ...message, messageId, sentAt: new Date() });
+    return { messageId };
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
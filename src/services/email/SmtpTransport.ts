@@ -0,0 +1,34 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { EmailMessage, EmailSendResult, EmailTransport } from './types';
+
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private transporter: Transporter;
+
+  constructor(options: {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    pass?: string;
+  }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined
+    });
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const info = await this.transporter.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html
+    });
+
+    return { messageId: info.messageId };
+  }
+}
@@ -0,0 +1,58 @@
+import path from 'path';
+import { getEnv } from '../../config/env';
+import logger from '../../config/logger';
+import { EmailTransport } from './types';
+import { SmtpTransport } from './SmtpTransport';
+import { HttpApiTransport } from './HttpApiTransport';
+import { MemoryTransport } from './MemoryTransport';
+import { FileTransport } from './FileTransport';
+
+let transport: EmailTransport | null = null;
+
+/**
+ * Get the configured email transport (created once per process)
+ */
+export function getEmailTransport(): EmailTransport {
+  if (transport) {
+    return transport;
+  }
+
+  const env = getEnv();
+
+  switch (env.EMAIL_TRANSPORT) {
+    case 'smtp':
+      transport = new SmtpTransport({
+        host: env.SMTP_HOST!,
+        port: env.SMTP_PORT,
+        secure: env.SMTP_SECURE,
+        user: env.SMTP_USER,
+        pass: env.SMTP_PASS
+      });
+      break;
+    case 'http':
+      transport = new HttpApiTransport({
+        url: env.EMAIL_API_URL!,
+        apiKey: env.EMAIL_API_KEY!
+      });
+      break;
+    case 'file':
+      transport = new FileTransport(path.resolve(env.EMAIL_FILE_DIR));
+      break;
+    default:
+      transport = new MemoryTransport();
+  }
+
+  logger.info(`📧 Email transport initialized: ${transport.name}`);
+  return transport;
+}
+
+/**
+ * Override the email transport (tests and local tooling)
+ */
+export function setEmailTransport(custom: EmailTransport | null): void {
+  transport = custom;
+}
+
+export * from './types';
+export { renderEmail, escapeHtml } from './renderer';
+export { SmtpTransport, HttpApiTransport, MemoryTransport, FileTransport };
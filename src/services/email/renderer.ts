@@ -0,0 +1,47 @@
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render the subject, plain-text and HTML bodies for a notification email.
+ * Explicit subject/html/text values win over the notification title/body.
+ */
+export function renderEmail(content: {
+  title: string;
+  body: string;
+  subject?: string;
+  html?: string;
+  text?: string;
+}): RenderedEmail {
+  const subject = content.subject || content.title;
+  const text = content.text || `${content.title}\n\n${content.body}\n\n— ExtraHand`;
+
+  const paragraphs = content.body
+    .split(/\n{2,}/)
+    .map(p => `<p style="margin:0 0 16px;">${escapeHtml(p).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+
+  const html = content.html || `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f5f5f5;font-family:Arial,Helvetica,sans-serif;color:#222;">
+    <div style="max-width:560px;margin:0 auto;background:#fff;border-radius:8px;padding:24px;">
+      <h2 style="margin:0 0 16px;font-size:20px;">${escapeHtml(content.title)}</h2>
+      ${paragraphs}
+      <p style="margin:24px 0 0;font-size:12px;color:#888;">You are receiving this email because of your ExtraHand notification settings.</p>
+    </div>
+  </body>
+</html>`;
+
+  return { subject, text, html };
+}
@@ -0,0 +1,20 @@
+export interface EmailMessage {
+  to: string;
+  from: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailSendResult {
+  messageId?: string;
+}
+
+/**
+ * Transport used by the email channel to hand off a rendered message.
+ * Implementations should throw on delivery failure.
+ */
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
@@ -0,0 +1,229 @@
+import { BaseMessage, SendResponse } from 'firebase-admin/messaging';
+import { admin } from '../../config/firebase';
+import logger from '../../config/logger';
+import FCMToken from '../../models/FCMToken';
+import { NotificationPayload, PushOptions } from '../../types';
+
+/**
+ * FCM error codes that indicate a transient failure worth retrying
+ */
+export const RETRYABLE_FCM_ERROR_CODES = [
+  'messaging/internal-error',
+  'messaging/server-unavailable',
+  'messaging/unavailable',
+  'messaging/quota-exceeded',
+  'messaging/message-rate-exceeded',
+  'messaging/device-message-rate-exceeded',
+  'messaging/unknown-error'
+];
+
+/**
+ * FCM error codes that mean the token will never work again
+ */
+export const INVALID_TOKEN_ERROR_CODES = [
+  'messaging/invalid-registration-token',
+  'messaging/registration-token-not-registered'
+];
+
+export function isRetryableFcmError(code?: string): boolean {
+  return !!code && RETRYABLE_FCM_ERROR_CODES.includes(code);
+}
+
+/**
+ * Build the FCM message (notification, data and platform options) for a notification.
+ * Rich options are also copied into data so apps can render actions and follow deep links.
+ * Without a badge (topic broadcasts, users who opted out) the app icon badge is left unchanged.
+ */
+export function buildPushMessage(
+  notification: Pick<NotificationPayload, 'type' | 'title' | 'body' | 'data'> & PushOptions,
+  options: { badge?: number } = {}
+): BaseMessage {
+  const { imageUrl, deepLink, actions, collapseKey, threadId, ttl, priority = 'high', androidChannelId } = notification;
+
+  return {
+    notification: {
+      title: notification.title,
+      body: notification.body,
+      ...(imageUrl && { imageUrl })
+    },
+    data: {
+      type: notification.type,
+      ...(notification.data || {}),
+      ...(deepLink && { deepLink }),
+      ...(actions?.length && { actions: JSON.stringify(actions) }),
+      ...(threadId && { threadId })
+    },
+    android: {
+      priority,
+      ...(collapseKey && { collapseKey }),
+      ...(ttl !== undefined && { ttl: ttl * 1000 }),
+      notification: {
+        sound: 'default',
+        channelId: androidChannelId || 'default',
+        ...(imageUrl && { imageUrl }),
+        // Replaces an earlier notification with the same key in the tray
+        ...(collapseKey && { tag: collapseKey })
+      }
+    },
+    apns: {
+      headers: {
+        'apns-priority': priority === 'high' ? '10' : '5',
+        ...(collapseKey && { 'apns-collapse-id': collapseKey }),
+        ...(ttl !== undefined && { 'apns-expiration': String(Math.floor(Date.now() / 1000) + ttl) })
+      },
+      payload: {
+        aps: {
+          sound: 'default',
+          ...(options.badge !== undefined && { badge: options.badge }),
+          ...(threadId && { threadId }),
+          // The iOS app registers a notification category with its buttons for each type
+          ...(actions?.length && { category: notification.type }),
+          // Lets the notification service extension download the image
+          ...(imageUrl && { mutableContent: true })
+        }
+      },
+      ...(imageUrl && { fcmOptions: { imageUrl } })
+    },
+    webpush: {
+      headers: {
+        Urgency: priority,
+        ...(collapseKey && { Topic: collapseKey }),
+        ...(ttl !== undefined && { TTL: String(ttl) })
+      },
+      notification: {
+        ...(imageUrl && { image: imageUrl }),
+        ...(actions?.length && { actions: actions.map(action => ({ action: action.id, title: action.title })) })
+      },
+      // FCM only opens https links from web notifications
+      ...(deepLink?.startsWith('https://') && { fcmOptions: { link: deepLink } })
+    }
+  };
+}
+
+/**
+ * Build a silent message that only sets the app icon badge
+ */
+export function buildBadgeMessage(badge: number): BaseMessage {
+  return {
+    data: {
+      type: 'badge_update',
+      badge: String(badge)
+    },
+    android: {
+      priority: 'normal'
+    },
+    apns: {
+      headers: {
+        'apns-push-type': 'alert',
+        'apns-priority': '5'
+      },
+      // No alert or sound, so iOS updates the badge without showing anything
+      payload: {
+        aps: { badge }
+      }
+    }
+  };
+}
+
+/**
+ * Build a data-only message that wakes the app for background work without
+ * showing anything: no notification block on Android, content-available on APNs
+ */
+export function buildSilentPushMessage(
+  message: { type: string; data?: Record<string, string>; ttl?: number; collapseKey?: string }
+): BaseMessage {
+  const { ttl, collapseKey } = message;
+
+  return {
+    data: {
+      type: message.type,
+      ...(message.data || {})
+    },
+    android: {
+      // High priority lets the app run briefly even in Doze
+      priority: 'high',
+      ...(collapseKey && { collapseKey }),
+      ...(ttl !== undefined && { ttl: ttl * 1000 })
+    },
+    apns: {
+      headers: {
+        'apns-push-type': 'background',
+        // APNs rejects background pushes sent with priority 10
+        'apns-priority': '5',
+        ...(collapseKey && { 'apns-collapse-id': collapseKey }),
+        ...(ttl !== undefined && { 'apns-expiration': String(Math.floor(Date.now() / 1000) + ttl) })
+      },
+      payload: {
+        aps: { contentAvailable: true }
+      }
+    }
+  };
+}
+
+export interface MulticastOutcome {
+  successCount: number;
+  failureCount: number;
+  responses: Array<{ token: string } & SendResponse>;
+  retryableTokens: string[];
+  invalidTokens: string[];
+  // Set when the whole multicast call failed before FCM returned per-token results
+  error?: { code?: string; message: string };
+}
+
+/**
+ * Send a message to a list of tokens, refresh lastActive for delivered tokens
+ * and remove tokens FCM reports as invalid. Never throws for FCM failures;
+ * a failed call is reported through `error` with every token marked failed.
+ */
+export async function sendMulticast(tokens: string[], message: BaseMessage): Promise<MulticastOutcome> {
+  let responses: Array<{ token: string } & SendResponse>;
+
+  try {
+    const response = await admin.messaging().sendEachForMulticast({
+      tokens,
+      ...message
+    });
+    responses = response.responses.map((resp, idx) => ({ token: tokens[idx], ...resp }));
+  } catch (error: any) {
+    logger.error('FCM multicast request failed:', error);
+    return {
+      successCount: 0,
+      failureCount: tokens.length,
+      responses: [],
+      retryableTokens: isRetryableFcmError(error.code) || !error.code ? [...tokens] : [],
+      invalidTokens: [],
+      error: { code: error.code, message: error.message }
+    };
+  }
+
+  // Update lastActive for successful tokens
+  const successfulTokens = responses.filter(resp => resp.success).map(resp => resp.token);
+  if (successfulTokens.length > 0) {
+    await FCMToken.updateMany(
+      { token: { $in: successfulTokens } },
+      { lastActive: new Date() }
+    );
+  }
+
+  // Remove invalid tokens
+  const invalidTokens = responses
+    .filter(resp => !resp.success && INVALID_TOKEN_ERROR_CODES.includes(resp.error?.code || ''))
+    .map(resp => resp.token);
+
+  if (invalidTokens.length > 0) {
+    await FCMToken.deleteMany({ token: { $in: invalidTokens } });
+    logger.info(`Removed ${invalidTokens.length} invalid FCM tokens`);
+  }
+
+  const retryableTokens = responses
+    .filter(resp => !resp.success && isRetryableFcmError(resp.error?.code))
+    .map(resp => resp.token);
+
+  return {
+    successCount: successfulTokens.length,
+    failureCount: responses.length - successfulTokens.length,
+    responses,
+    retryableTokens,
+    invalidTokens
+  };
+}
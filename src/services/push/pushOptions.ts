@@ -0,0 +1,139 @@
+import { BadRequestError } from '../../errors/AppError';
+import { PushAction, PushOptions } from '../../types';
+
+/**
+ * Most action buttons Android and iOS show on one notification
+ */
+export const MAX_PUSH_ACTIONS = 3;
+
+/**
+ * Longest TTL FCM accepts: 28 days
+ */
+export const MAX_PUSH_TTL_SECONDS = 28 * 24 * 60 * 60;
+
+const MAX_BADGE_EXTRA = 9999;
+
+// Also used as the webpush Topic header, which only allows 32 URL-safe characters
+const COLLAPSE_KEY_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+const IDENTIFIER_PATTERN = /^[A-Za-z0-9_.-]{1,64}$/;
+const MAX_URL_LENGTH = 2048;
+
+function parseUrl(value: unknown, field: string, httpsOnly: boolean): string {
+  if (typeof value !== 'string' || value.length > MAX_URL_LENGTH) {
+    throw new BadRequestError(`${field} must be a URL of at most ${MAX_URL_LENGTH} characters`);
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new BadRequestError(`${field} must be a valid URL`);
+  }
+
+  if (httpsOnly && url.protocol !== 'https:') {
+    throw new BadRequestError(`${field} must be an https URL`);
+  }
+  return value;
+}
+
+function parseIdentifier(value: unknown, field: string, pattern = IDENTIFIER_PATTERN): string {
+  if (typeof value !== 'string' || !pattern.test(value)) {
+    throw new BadRequestError(`${field} must match ${pattern}`);
+  }
+  return value;
+}
+
+function parseActions(value: unknown): PushAction[] {
+  if (!Array.isArray(value) || value.length > MAX_PUSH_ACTIONS) {
+    throw new BadRequestError(`actions must be an array of at most ${MAX_PUSH_ACTIONS} buttons`);
+  }
+
+  const ids = new Set<string>();
+  return value.map((action, index) => {
+    const id = parseIdentifier(action?.id, `actions[${index}].id`);
+    if (ids.has(id)) {
+      throw new BadRequestError(`actions[${index}].id "${id}" is used more than once`);
+    }
+    ids.add(id);
+
+    if (typeof action.title !== 'string' || action.title.trim() === '' || action.title.length > 40) {
+      throw new BadRequestError(`actions[${index}].title must be 1-40 characters`);
+    }
+
+    return {
+      id,
+      title: action.title.trim(),
+      ...(action.deepLink !== undefined && { deepLink: parseUrl(action.deepLink, `actions[${index}].deepLink`, false) })
+    };
+  });
+}
+
+const PUSH_OPTION_FIELDS: Array<keyof PushOptions> = [
+  'imageUrl', 'deepLink', 'actions', 'collapseKey', 'threadId', 'ttl', 'priority', 'androidChannelId', 'badgeExtra'
+];
+
+/**
+ * Copy the rich push fields set on a notification, e.g. to store it for later
+ */
+export function pickPushOptions(notification: PushOptions): PushOptions | undefined {
+  const options = Object.fromEntries(
+    PUSH_OPTION_FIELDS.filter(field => notification[field] !== undefined).map(field => [field, notification[field]])
+  );
+  return Object.keys(options).length > 0 ? options : undefined;
+}
+
+/**
+ * Validate the rich push fields of a request body. Absent fields are left out.
+ */
+export function parsePushOptions(input: Record<string, any>): PushOptions {
+  const options: PushOptions = {};
+
+  if (input.imageUrl !== undefined) {
+    options.imageUrl = parseUrl(input.imageUrl, 'imageUrl', true);
+  }
+
+  if (input.deepLink !== undefined) {
+    options.deepLink = parseUrl(input.deepLink, 'deepLink', false);
+  }
+
+  if (input.actions !== undefined) {
+    options.actions = parseActions(input.actions);
+  }
+
+  if (input.collapseKey !== undefined) {
+    options.collapseKey = parseIdentifier(input.collapseKey, 'collapseKey', COLLAPSE_KEY_PATTERN);
+  }
+
+  if (input.threadId !== undefined) {
+    options.threadId = parseIdentifier(input.threadId, 'threadId');
+  }
+
+  if (input.ttl !== undefined) {
+    const ttl = Number(input.ttl);
+    if (!Number.isInteger(ttl) || ttl < 0 || ttl > MAX_PUSH_TTL_SECONDS) {
+      throw new BadRequestError(`ttl must be a whole number of seconds between 0 and ${MAX_PUSH_TTL_SECONDS}`);
+    }
+    options.ttl = ttl;
+  }
+
+  if (input.priority !== undefined) {
+    if (input.priority !== 'high' && input.priority !== 'normal') {
+      throw new BadRequestError('priority must be "high" or "normal"');
+    }
+    options.priority = input.priority;
+  }
+
+  if (input.androidChannelId !== undefined) {
+    options.androidChannelId = parseIdentifier(input.androidChannelId, 'androidChannelId');
+  }
+
+  if (input.badgeExtra !== undefined) {
+    const badgeExtra = Number(input.badgeExtra);
+    if (!Number.isInteger(badgeExtra) || badgeExtra < 0 || badgeExtra > MAX_BADGE_EXTRA) {
+      throw new BadRequestError(`badgeExtra must be a whole number between 0 and ${MAX_BADGE_EXTRA}`);
+    }
+    options.badgeExtra = badgeExtra;
+  }
+
+  return options;
+}
@@ -0,0 +1,101 @@
+import { BadRequestError } from '../../errors/AppError';
+import {
+  NotificationCategoryDefinition,
+  NotificationPreferences,
+  PlatformPushRules,
+  PushPlatform,
+  PushTargetRule
+} from '../../types';
+
+const PUSH_PLATFORMS: PushPlatform[] = ['ios', 'android', 'web'];
+
+/**
+ * Validate a category limit. null clears it (all categories); categories with
+ * mandatory push are always delivered and don't need to be listed.
+ */
+export function validateCategoryList(
+  input: unknown,
+  field: string,
+  categories: Map<string, NotificationCategoryDefinition>
+): Array<keyof NotificationPreferences> | undefined {
+  if (input === null) {
+    return undefined;
+  }
+  if (!Array.isArray(input) || input.some(category => !categories.has(category))) {
+    throw new BadRequestError(`${field} must be an array of: ${Array.from(categories.keys()).join(', ')}`);
+  }
+  return Array.from(new Set(input));
+}
+
+/**
+ * Validate a preferences update of the per-platform push rules. Platforms set
+ * to null go back to receiving everything.
+ */
+export function validatePlatformRules(
+  input: any,
+  categories: Map<string, NotificationCategoryDefinition>,
+  current: PlatformPushRules = {}
+): PlatformPushRules {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new BadRequestError('platforms must be an object');
+  }
+
+  const rules: PlatformPushRules = { ...current };
+  for (const [platform, rule] of Object.entries<any>(input)) {
+    if (!PUSH_PLATFORMS.includes(platform as PushPlatform)) {
+      throw new BadRequestError(`platforms.${platform} is not a platform (${PUSH_PLATFORMS.join(', ')})`);
+    }
+    if (rule === null) {
+      delete rules[platform as PushPlatform];
+      continue;
+    }
+    if (typeof rule !== 'object' || Array.isArray(rule)) {
+      throw new BadRequestError(`platforms.${platform} must be an object`);
+    }
+    if (rule.muted !== undefined && typeof rule.muted !== 'boolean') {
+      throw new BadRequestError(`platforms.${platform}.muted must be a boolean`);
+    }
+
+    const limit = rule.categories === undefined
+      ? undefined
+      : validateCategoryList(rule.categories, `platforms.${platform}.categories`, categories);
+    rules[platform as PushPlatform] = {
+      muted: rule.muted === true,
+      ...(limit && { categories: limit })
+    };
+  }
+  return rules;
+}
+
+/**
+ * Whether a push in this category may go to a target under its rule. Pushes
+ * users cannot turn off (mandatory push) ignore category limits, not mutes.
+ */
+export function isPushAllowed(
+  rule: Partial<PushTargetRule> | undefined,
+  category: keyof NotificationPreferences,
+  mandatoryPush: boolean
+): boolean {
+  if (!rule) {
+    return true;
+  }
+  if (rule.muted) {
+    return false;
+  }
+  return !rule.categories || mandatoryPush || rule.categories.includes(category);
+}
+
+/**
+ * Keep the tokens whose platform rule and own category limit allow the category
+ */
+export function filterPushTokens<T extends { platform: string; categories?: string[] }>(
+  tokens: T[],
+  category: keyof NotificationPreferences,
+  mandatoryPush: boolean,
+  platforms: PlatformPushRules = {}
+): T[] {
+  return tokens.filter(token =>
+    isPushAllowed(platforms[token.platform as PushPlatform], category, mandatoryPush) &&
+    isPushAllowed({ categories: token.categories as Array<keyof NotificationPreferences> | undefined }, category, mandatoryPush)
+  );
+}
@@ -0,0 +1,126 @@
+import { BadRequestError } from '../../errors/AppError';
+
+/**
+ * Characters FCM allows in a topic name
+ */
+export const TOPIC_NAME_PATTERN = /^[a-zA-Z0-9\-_.~%]{1,900}$/;
+
+/**
+ * Most topics FCM accepts in one condition expression
+ */
+export const MAX_CONDITION_TOPICS = 5;
+
+export type TopicConditionNode =
+  | { op: 'topic'; topic: string }
+  | { op: 'and' | 'or'; left: TopicConditionNode; right: TopicConditionNode };
+
+function tokenize(condition: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /\s*('[^']*'|"[^"]*"|&&|\|\||\(|\)|[a-zA-Z]+)/y;
+  let index = 0;
+
+  while (index < condition.length) {
+    if (/^\s+$/.test(condition.slice(index))) {
+      break;
+    }
+    pattern.lastIndex = index;
+    const match = pattern.exec(condition);
+    if (!match) {
+      throw new BadRequestError(`Invalid topic condition near "${condition.slice(index, index + 10)}"`);
+    }
+    tokens.push(match[1]);
+    index = pattern.lastIndex;
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse an FCM condition such as "'city_hyd' in topics && ('role_tasker' in topics || 'role_poster' in topics)"
+ * so the same audience can be resolved from stored subscriptions
+ */
+export function parseTopicCondition(condition: string): TopicConditionNode {
+  const tokens = tokenize(condition || '');
+  let position = 0;
+
+  const expect = (token: string) => {
+    if (tokens[position] !== token) {
+      throw new BadRequestError(`Invalid topic condition: expected "${token}"`);
+    }
+    position++;
+  };
+
+  const parseFactor = (): TopicConditionNode => {
+    const token = tokens[position];
+    if (token === '(') {
+      position++;
+      const node = parseOr();
+      expect(')');
+      return node;
+    }
+    if (token && /^['"]/.test(token)) {
+      const topic = token.slice(1, -1);
+      if (!TOPIC_NAME_PATTERN.test(topic)) {
+        throw new BadRequestError(`Invalid topic name "${topic}"`);
+      }
+      position++;
+      expect('in');
+      expect('topics');
+      return { op: 'topic', topic };
+    }
+    throw new BadRequestError('Invalid topic condition: expected a quoted topic or "("');
+  };
+
+  const parseAnd = (): TopicConditionNode => {
+    let node = parseFactor();
+    while (tokens[position] === '&&') {
+      position++;
+      node = { op: 'and', left: node, right: parseFactor() };
+    }
+    return node;
+  };
+
+  const parseOr = (): TopicConditionNode => {
+    let node = parseAnd();
+    while (tokens[position] === '||') {
+      position++;
+      node = { op: 'or', left: node, right: parseAnd() };
+    }
+    return node;
+  };
+
+  const node = parseOr();
+  if (position !== tokens.length) {
+    throw new BadRequestError(`Invalid topic condition near "${tokens[position]}"`);
+  }
+
+  if (getConditionTopics(node).length > MAX_CONDITION_TOPICS) {
+    throw new BadRequestError(`A topic condition may reference at most ${MAX_CONDITION_TOPICS} topics`);
+  }
+
+  return node;
+}
+
+/**
+ * Every topic referenced by a condition
+ */
+export function getConditionTopics(node: TopicConditionNode): string[] {
+  if (node.op === 'topic') {
+    return [node.topic];
+  }
+  return Array.from(new Set([...getConditionTopics(node.left), ...getConditionTopics(node.right)]));
+}
+
+/**
+ * Whether a subscriber of the given topics matches the condition
+ */
+export function evaluateTopicCondition(node: TopicConditionNode, topics: Set<string>): boolean {
+  switch (node.op) {
+    case 'topic':
+      return topics.has(node.topic);
+    case 'and':
+      return evaluateTopicCondition(node.left, topics) && evaluateTopicCondition(node.right, topics);
+    case 'or':
+      return evaluateTopicCondition(node.left, topics) || evaluateTopicCondition(node.right, topics);
+  }
+}
@@ -0,0 +1,99 @@
+import webpush from 'web-push';
+import { getEnv } from '../../config/env';
+import logger from '../../config/logger';
+import WebPushSubscription from '../../models/WebPushSubscription';
+import { IDeliveryOutcome } from '../../models/NotificationDelivery';
+import { NotificationPayload, PushOptions } from '../../types';
+
+/**
+ * How long a push service keeps a message for an offline browser when the
+ * notification sets no ttl: 1 day
+ */
+const DEFAULT_WEB_PUSH_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Push service responses that mean the subscription is gone for good
+ */
+const EXPIRED_SUBSCRIPTION_STATUS_CODES = [404, 410];
+
+export interface WebPushTarget {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+export function isWebPushConfigured(): boolean {
+  const env = getEnv();
+  return !!env.VAPID_PUBLIC_KEY && !!env.VAPID_PRIVATE_KEY;
+}
+
+/**
+ * JSON the service worker receives in its push event and shows with showNotification()
+ */
+export function buildWebPushPayload(
+  notification: Pick<NotificationPayload, 'type' | 'title' | 'body' | 'data'> & PushOptions,
+  options: { badge?: number } = {}
+): string {
+  return JSON.stringify({
+    type: notification.type,
+    title: notification.title,
+    body: notification.body,
+    data: notification.data || {},
+    ...(notification.imageUrl && { image: notification.imageUrl }),
+    ...(notification.deepLink && { deepLink: notification.deepLink }),
+    ...(notification.actions?.length && { actions: notification.actions }),
+    ...(notification.collapseKey && { tag: notification.collapseKey }),
+    ...(options.badge !== undefined && { badge: options.badge })
+  });
+}
+
+/**
+ * Encrypt and send a payload to browser push subscriptions, deleting the ones
+ * the push service reports as expired. Never throws for delivery failures.
+ */
+export async function sendWebPush(
+  targets: WebPushTarget[],
+  payload: string,
+  options: Pick<PushOptions, 'ttl' | 'priority' | 'collapseKey'> = {}
+): Promise<IDeliveryOutcome[]> {
+  const env = getEnv();
+  const expired: string[] = [];
+
+  const outcomes = await Promise.all(targets.map(async (target): Promise<IDeliveryOutcome> => {
+    try {
+      await webpush.sendNotification(target, payload, {
+        vapidDetails: {
+          subject: env.VAPID_SUBJECT,
+          publicKey: env.VAPID_PUBLIC_KEY!,
+          privateKey: env.VAPID_PRIVATE_KEY!
+        },
+        TTL: options.ttl ?? DEFAULT_WEB_PUSH_TTL_SECONDS,
+        urgency: options.priority === 'normal' ? 'normal' : 'high',
+        ...(options.collapseKey && { topic: options.collapseKey })
+      });
+      return { target: target.endpoint, platform: 'webpush', success: true };
+    } catch (error: any) {
+      if (EXPIRED_SUBSCRIPTION_STATUS_CODES.includes(error.statusCode)) {
+        expired.push(target.endpoint);
+      }
+      return {
+        target: target.endpoint,
+        platform: 'webpush',
+        success: false,
+        errorCode: error.statusCode ? `webpush/${error.statusCode}` : 'webpush/request-failed',
+        errorMessage: error.body || error.message
+      };
+    }
+  }));
+
+  const delivered = outcomes.filter(o => o.success).map(o => o.target);
+  if (delivered.length > 0) {
+    await WebPushSubscription.updateMany({ endpoint: { $in: delivered } }, { lastActive: new Date() });
+  }
+
+  if (expired.length > 0) {
+    await WebPushSubscription.deleteMany({ endpoint: { $in: expired } });
+    logger.info(`Removed ${expired.length} expired web push subscriptions`);
+  }
+
+  return outcomes;
+}
@@ -0,0 +1,188 @@
+import { BadRequestError } from '../errors/AppError';
+import { DoNotDisturb, QuietHours, QuietHoursWindow } from '../types';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const MINUTES_PER_DAY = 24 * 60;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MAX_DND_MINUTES = 7 * MINUTES_PER_DAY;
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+function toMinutes(time: string): number {
+  const [, hours, minutes] = TIME_PATTERN.exec(time)!;
+  return Number(hours) * 60 + Number(minutes);
+}
+
+/**
+ * Check that a timezone is a valid IANA name, e.g. "Asia/Kolkata"
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate a quiet hours update, throwing BadRequestError on problems
+ */
+export function validateQuietHours(quietHours: any): QuietHours {
+  if (!quietHours || typeof quietHours !== 'object' || Array.isArray(quietHours)) {
+    throw new BadRequestError('quietHours must be an object');
+  }
+
+  const schedule = quietHours.schedule ?? [];
+  if (!Array.isArray(schedule)) {
+    throw new BadRequestError('quietHours.schedule must be an array');
+  }
+
+  const windows: QuietHoursWindow[] = schedule.map((window: any, index: number) => {
+    if (!Number.isInteger(window?.day) || window.day < 0 || window.day > 6) {
+      throw new BadRequestError(`quietHours.schedule[${index}].day must be 0 (Sunday) to 6 (Saturday)`);
+    }
+    if (!TIME_PATTERN.test(window.start || '') || !TIME_PATTERN.test(window.end || '')) {
+      throw new BadRequestError(`quietHours.schedule[${index}] start and end must be "HH:mm"`);
+    }
+    return { day: window.day, start: window.start, end: window.end };
+  });
+
+  return { enabled: quietHours.enabled === true, schedule: windows };
+}
+
+/**
+ * Weekday (0 = Sunday) and minutes since midnight of a moment in a timezone
+ */
+function getLocalTime(date: Date, timezone: string): { day: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+
+  const part = (type: string) => parts.find(p => p.type === type)!.value;
+  return {
+    day: WEEKDAYS.indexOf(part('weekday')),
+    minutes: Number(part('hour')) * 60 + Number(part('minute'))
+  };
+}
+
+/**
+ * Minutes left in the quiet window covering the given local time, or 0.
+ * A window whose end is before its start runs past midnight into the next day;
+ * equal start and end silences the whole day.
+ */
+function minutesUntilWindowEnds(window: QuietHoursWindow, day: number, minutes: number): number {
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+
+  if (start === end) {
+    return day === window.day ? MINUTES_PER_DAY - minutes : 0;
+  }
+  if (start < end) {
+    return day === window.day && minutes >= start && minutes < end ? end - minutes : 0;
+  }
+  if (day === window.day && minutes >= start) {
+    return MINUTES_PER_DAY - minutes + end;
+  }
+  if (day === (window.day + 1) % 7 && minutes < end) {
+    return end - minutes;
+  }
+  return 0;
+}
+
+/**
+ * When the user's quiet hours end, or null when `now` is outside quiet hours.
+ * Back-to-back windows (e.g. Fri 22:00-00:00 and Sat 00:00-08:00) are merged.
+ */
+export function getQuietHoursEnd(
+  settings: { timezone?: string; quietHours?: QuietHours },
+  now: Date = new Date()
+): Date | null {
+  const quietHours = settings.quietHours;
+  if (!quietHours?.enabled || !quietHours.schedule?.length) {
+    return null;
+  }
+
+  const timezone = settings.timezone && isValidTimezone(settings.timezone)
+    ? settings.timezone
+    : DEFAULT_TIMEZONE;
+
+  let end: Date | null = null;
+  let cursor = new Date(now.getTime() - now.getUTCSeconds() * 1000 - now.getUTCMilliseconds());
+
+  // A week of back-to-back windows is the most that can chain together
+  for (let i = 0; i < 8; i++) {
+    const { day, minutes } = getLocalTime(cursor, timezone);
+    const remaining = Math.max(
+      ...quietHours.schedule.map(window => minutesUntilWindowEnds(window, day, minutes))
+    );
+    if (remaining === 0) {
+      break;
+    }
+    cursor = new Date(cursor.getTime() + remaining * 60 * 1000);
+    end = cursor;
+  }
+
+  return end;
+}
+
+/**
+ * Validate a do-not-disturb request: `durationMinutes` from now, or an
+ * `until` date, up to a week ahead. Throws BadRequestError on problems.
+ */
+export function validateDnd(input: any, now: Date = new Date()): DoNotDisturb {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new BadRequestError('Request body must be an object');
+  }
+  if ((input.durationMinutes === undefined) === (input.until === undefined)) {
+    throw new BadRequestError('Provide either durationMinutes or until');
+  }
+  if (input.deliverLater !== undefined && typeof input.deliverLater !== 'boolean') {
+    throw new BadRequestError('deliverLater must be a boolean');
+  }
+
+  let until: Date;
+  if (input.durationMinutes !== undefined) {
+    if (!Number.isInteger(input.durationMinutes) || input.durationMinutes < 1 || input.durationMinutes > MAX_DND_MINUTES) {
+      throw new BadRequestError(`durationMinutes must be an integer from 1 to ${MAX_DND_MINUTES}`);
+    }
+    until = new Date(now.getTime() + input.durationMinutes * 60 * 1000);
+  } else {
+    until = new Date(input.until);
+    if (typeof input.until !== 'string' || isNaN(until.getTime())) {
+      throw new BadRequestError('until must be an ISO 8601 date');
+    }
+    if (until <= now || until.getTime() - now.getTime() > MAX_DND_MINUTES * 60 * 1000) {
+      throw new BadRequestError('until must be in the future and at most 7 days ahead');
+    }
+  }
+
+  return { until, deliverLater: input.deliverLater === true, startedAt: now };
+}
+
+/**
+ * When the user's do-not-disturb ends, or null when it is off or has expired
+ */
+export function getDndEnd(
+  settings: { dnd?: DoNotDisturb | null },
+  now: Date = new Date()
+): Date | null {
+  const until = settings.dnd?.until ? new Date(settings.dnd.until) : null;
+  return until && until > now ? until : null;
+}
+
+/**
+ * Whether do-not-disturb drops (rather than holds back) a notification.
+ * Essential categories (with mandatory channels) always go through.
+ */
+export function isDroppedByDnd(
+  settings: { dnd?: DoNotDisturb | null },
+  essential: boolean,
+  now: Date = new Date()
+): boolean {
+  return !essential && settings.dnd?.deliverLater !== true && getDndEnd(settings, now) !== null;
+}
@@ -0,0 +1,25 @@
+import { EventEmitter } from 'events';
+import { RealtimeBus, RealtimeEvent, RealtimeHandler } from './types';
+
+/**
+ * In-process bus. Only reaches clients connected to this instance.
+ */
+export class LocalBus implements RealtimeBus {
+  readonly name = 'local';
+  private readonly emitter = new EventEmitter().setMaxListeners(0);
+
+  async publish(event: RealtimeEvent): Promise<void> {
+    this.emitter.emit('event', event);
+  }
+
+  subscribe(handler: RealtimeHandler): () => void {
+    this.emitter.on('event', handler);
+    return () => {
+      this.emitter.off('event', handler);
+    };
+  }
+
+  async close(): Promise<void> {
+    this.emitter.removeAllListeners();
+  }
+}
@@ -0,0 +1,74 @@
+import { EventEmitter } from 'events';
+import logger from '../../config/logger';
+import RealtimeEvent from '../../models/RealtimeEvent';
+import { RealtimeBus, RealtimeEvent as RealtimeEventPayload, RealtimeHandler } from './types';
+
+const REOPEN_DELAY_MS = 5000;
+
+/**
+ * Fans events out across instances by inserting them into the realtime_events
+ * collection and watching it with a change stream (requires a replica set).
+ */
+export class MongoBus implements RealtimeBus {
+  readonly name = 'mongo';
+  private readonly emitter = new EventEmitter().setMaxListeners(0);
+  private stream: ReturnType<typeof RealtimeEvent.watch> | null = null;
+  private resumeToken: unknown = null;
+  private reopenTimer: NodeJS.Timeout | null = null;
+  private closed = false;
+
+  async publish(event: RealtimeEventPayload): Promise<void> {
+    await RealtimeEvent.create(event);
+  }
+
+  subscribe(handler: RealtimeHandler): () => void {
+    this.emitter.on('event', handler);
+    this.open();
+    return () => {
+      this.emitter.off('event', handler);
+    };
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.reopenTimer) {
+      clearTimeout(this.reopenTimer);
+      this.reopenTimer = null;
+    }
+    await this.stream?.close();
+    this.stream = null;
+    this.emitter.removeAllListeners();
+  }
+
+  private open(): void {
+    if (this.stream || this.closed) {
+      return;
+    }
+
+    // Resume where the previous stream stopped so no events are missed after an error
+    this.stream = RealtimeEvent.watch(
+      [{ $match: { operationType: 'insert' } }],
+      this.resumeToken ? { resumeAfter: this.resumeToken } : {}
+    );
+
+    this.stream.on('change', (change: any) => {
+      this.resumeToken = change._id;
+      const { userId, event, data } = change.fullDocument;
+      this.emitter.emit('event', { userId, event, data });
+    });
+
+    this.stream.on('error', (error: any) => {
+      logger.error('Realtime change stream error, reopening:', { error: error.message });
+      this.stream?.close().catch(() => undefined);
+      this.stream = null;
+      if (!this.closed) {
+        this.reopenTimer = setTimeout(() => {
+          this.reopenTimer = null;
+          this.open();
+        }, REOPEN_DELAY_MS);
+      }
+    });
+
+    logger.info('📡 Realtime change stream opened');
+  }
+}
@@ -0,0 +1,31 @@
+import { getEnv } from '../../config/env';
+import logger from '../../config/logger';
+import { RealtimeBus } from './types';
+import { LocalBus } from './LocalBus';
+import { MongoBus } from './MongoBus';
+
+let bus: RealtimeBus | null = null;
+
+/**
+ * Get the configured realtime bus (created once per process)
+ */
+export function getRealtimeBus(): RealtimeBus {
+  if (bus) {
+    return bus;
+  }
+
+  bus = getEnv().REALTIME_BUS === 'mongo' ? new MongoBus() : new LocalBus();
+
+  logger.info(`📡 Realtime bus initialized: ${bus.name}`);
+  return bus;
+}
+
+/**
+ * Override the realtime bus (tests and custom pub/sub backends)
+ */
+export function setRealtimeBus(custom: RealtimeBus | null): void {
+  bus = custom;
+}
+
+export * from './types';
+export { LocalBus, MongoBus };
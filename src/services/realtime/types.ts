@@ -0,0 +1,20 @@
+export type RealtimeEventName = 'notification' | 'unread-count';
+
+export interface RealtimeEvent {
+  userId: string;
+  event: RealtimeEventName;
+  data: Record<string, any>;
+}
+
+export type RealtimeHandler = (event: RealtimeEvent) => void;
+
+/**
+ * Pub/sub used to fan in-app events out to every service instance.
+ * Subscribers receive every published event, including their own.
+ */
+export interface RealtimeBus {
+  readonly name: string;
+  publish(event: RealtimeEvent): Promise<void>;
+  subscribe(handler: RealtimeHandler): () => void;
+  close(): Promise<void>;
+}
@@ -0,0 +1,22 @@
+import { randomUUID } from 'crypto';
+import logger from '../../config/logger';
+import { SmsMessage, SmsProvider, SmsSendResult } from './types';
+
+/**
+ * Keeps sent messages in memory and logs them. Intended for tests and local development.
+ */
+export class FakeSmsProvider implements SmsProvider {
+  readonly name = 'fake';
+  readonly sent: Array<SmsMessage & { messageId: string; sentAt: Date }> = [];
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    const messageId = randomUUID();
+    this.sent.push({ ...message, messageId, sentAt: new Date() });
+    logger.debug('📱 [Fake SMS]', { to: message.to, body: message.body });
+    return { messageId };
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
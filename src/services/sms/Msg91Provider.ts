@@ -0,0 +1,38 @@
+import axios from 'axios';
+import { SmsMessage, SmsProvider, SmsSendResult } from './types';
+
+export class Msg91Provider implements SmsProvider {
+  readonly name = 'msg91';
+
+  constructor(private options: { authKey: string; senderId: string; timeoutMs?: number }) {}
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    const response = await axios.post(
+      'https://api.msg91.com/api/v2/sendsms',
+      {
+        sender: this.options.senderId,
+        route: '4', // Transactional route
+        sms: [
+          {
+            message: message.body,
+            // MSG91 expects the number without the leading "+"
+            to: [message.to.replace(/^\+/, '')]
+          }
+        ]
+      },
+      {
+        headers: {
+          authkey: this.options.authKey,
+          'Content-Type': 'application/json'
+        },
+        timeout: this.options.timeoutMs ?? 10000
+      }
+    );
+
+    if (response.data?.type && response.data.type !== 'success') {
+      throw new Error(`MSG91 rejected message: ${response.data.message || response.data.type}`);
+    }
+
+    return { messageId: response.data?.message };
+  }
+}
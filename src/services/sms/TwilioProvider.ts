@@ -0,0 +1,28 @@
+import axios from 'axios';
+import { SmsMessage, SmsProvider, SmsSendResult } from './types';
+
+export class TwilioProvider implements SmsProvider {
+  readonly name = 'twilio';
+
+  constructor(private options: { accountSid: string; authToken: string; from: string; timeoutMs?: number }) {}
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    const url = `https://api.twilio.com/2010-04-01/Accounts/${this.options.accountSid}/Messages.json`;
+    const form = new URLSearchParams({
+      To: message.to,
+      From: this.options.from,
+      Body: message.body
+    });
+
+    const response = await axios.post(url, form.toString(), {
+      auth: {
+        username: this.options.accountSid,
+        password: this.options.authToken
+      },
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      timeout: this.options.timeoutMs ?? 10000
+    });
+
+    return { messageId: response.data?.sid };
+  }
+}
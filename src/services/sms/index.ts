@@ -0,0 +1,50 @@
+import { getEnv } from '../../config/env';
+import logger from '../../config/logger';
+import { SmsProvider } from './types';
+import { TwilioProvider } from './TwilioProvider';
+import { Msg91Provider } from './Msg91Provider';
+import { FakeSmsProvider } from './FakeSmsProvider';
+
+let provider: SmsProvider | null = null;
+
+/**
+ * Get the configured SMS provider (created once per process)
+ */
+export function getSmsProvider(): SmsProvider {
+  if (provider) {
+    return provider;
+  }
+
+  const env = getEnv();
+
+  switch (env.SMS_PROVIDER) {
+    case 'twilio':
+      provider = new TwilioProvider({
+        accountSid: env.TWILIO_ACCOUNT_SID!,
+        authToken: env.TWILIO_AUTH_TOKEN!,
+        from: env.TWILIO_FROM_NUMBER!
+      });
+      break;
+    case 'msg91':
+      provider = new Msg91Provider({
+        authKey: env.MSG91_AUTH_KEY!,
+        senderId: env.MSG91_SENDER_ID!
+      });
+      break;
+    default:
+      provider = new FakeSmsProvider();
+  }
+
+  logger.info(`📱 SMS provider initialized: ${provider.name}`);
+  return provider;
+}
+
+/**
+ * Override the SMS provider (tests and local tooling)
+ */
+export function setSmsProvider(custom: SmsProvider | null): void {
+  provider = custom;
+}
+
+export * from './types';
+export { TwilioProvider, Msg91Provider, FakeSmsProvider };
@@ -0,0 +1,17 @@
+export interface SmsMessage {
+  to: string; // E.164 phone number, e.g. +919876543210
+  body: string;
+}
+
+export interface SmsSendResult {
+  messageId?: string;
+}
+
+/**
+ * Provider used by the SMS channel to deliver a text message.
+ * Implementations should throw on delivery failure.
+ */
+export interface SmsProvider {
+  readonly name: string;
+  send(message: SmsMessage): Promise<SmsSendResult>;
+}
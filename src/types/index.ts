@@ -8,16 +8,73 @@ export interface AuthenticatedRequest extends Request {
   };
 }
 
-export interface NotificationPreferences {
-  transactional: { email: boolean; push: boolean; sms: boolean };
-  taskUpdates: { email: boolean; push: boolean; sms: boolean };
-  taskReminders: { email: boolean; push: boolean; sms: boolean };
-  keywordTaskAlerts: { push: boolean };
-  recommendedTaskAlerts: { push: boolean };
-  helpfulInformation: { email: boolean; push: boolean; sms: boolean };
-  updatesNewsletters: { email: boolean; push: boolean; sms: boolean };
+export type PreferenceChannel = 'push' | 'email' | 'sms';
+
+export type ChannelPreferences = Partial<Record<PreferenceChannel, boolean>>;
+
+/**
+ * A user's channel choices keyed by category key (see NotificationCategoryDefinition)
+ */
+export type NotificationPreferences = Record<string, ChannelPreferences>;
+
+export interface NotificationCategoryDefinition {
+  key: string; // Sent as the notification's category, e.g. "taskUpdates"
+  name: string; // Shown in settings, e.g. "Task updates"
+  description?: string;
+  label: string; // Used in digest summaries, e.g. "3 new task updates"
+  channels: PreferenceChannel[]; // Channels users can choose for this category
+  defaults: ChannelPreferences; // Used until the user chooses
+  mandatory: PreferenceChannel[]; // Always on; users cannot turn these off
 }
 
+export interface QuietHoursWindow {
+  day: number; // 0 = Sunday ... 6 = Saturday, in the user's timezone
+  start: string; // "HH:mm"
+  end: string; // "HH:mm"; before start means the window ends the next day
+}
+
+export interface QuietHours {
+  enabled: boolean;
+  schedule: QuietHoursWindow[];
+}
+
+export type DigestChannel = 'push' | 'email' | 'in_app';
+
+export interface DigestRule {
+  enabled: boolean;
+  channel: DigestChannel; // Sends on this channel are collected into one summary
+  windowMinutes: number; // Summary goes out this long after the first collected notification
+}
+
+export type DigestSettings = Partial<Record<keyof NotificationPreferences, DigestRule>>;
+
+export interface DoNotDisturb {
+  until: Date;
+  deliverLater: boolean; // Hold suppressed notifications back until `until` instead of dropping them
+  startedAt: Date;
+}
+
+export type PushPlatform = 'ios' | 'android' | 'web';
+
+export interface PushTargetRule {
+  muted: boolean; // No pushes at all
+  categories?: Array<keyof NotificationPreferences>; // Only these categories; all when absent
+}
+
+export type PlatformPushRules = Partial<Record<PushPlatform, PushTargetRule>>;
+
+export interface NotificationSettings {
+  timezone: string; // IANA name, e.g. "Asia/Kolkata"
+  quietHours: QuietHours;
+  digest: DigestSettings;
+  badgeUpdates: boolean; // false leaves the app icon badge to the client
+  platforms: PlatformPushRules; // Push rules per platform, on top of the category preferences
+  dnd: DoNotDisturb | null; // Active do-not-disturb; null when off or expired
+}
+
+// Settings plus one ChannelPreferences entry per registered category, keyed by category key
+export type UserNotificationPreferences = NotificationSettings & Record<string, unknown>;
+
 export interface FCMToken {
   token: string;
   platform: 'ios' | 'android' | 'web';
@@ -25,13 +82,113 @@ export interface FCMToken {
   lastActive: Date;
 }
 
-export interface NotificationPayload {
+export interface EmailContent {
+  to?: string; // Overrides the address on the user's Firebase account
+  subject?: string;
+  html?: string;
+  text?: string;
+}
+
+export interface SmsContent {
+  body?: string; // Defaults to "<title>: <body>"
+}
+
+export interface PushAction {
+  id: string; // Action identifier reported back by the app
+  title: string;
+  deepLink?: string;
+}
+
+/**
+ * Rich push options, mapped into the android, apns and webpush sections of the FCM message
+ */
+export interface PushOptions {
+  imageUrl?: string; // HTTPS image shown in the expanded notification
+  deepLink?: string; // Opened when the notification is tapped, e.g. extrahand://tasks/123
+  actions?: PushAction[]; // Up to 3 buttons
+  collapseKey?: string; // A newer notification with the same key replaces the older one
+  threadId?: string; // Groups notifications on iOS
+  ttl?: number; // Seconds FCM keeps the message for an offline device
+  priority?: 'high' | 'normal';
+  androidChannelId?: string;
+  badgeExtra?: number; // Added to the unread in-app count for the badge, e.g. unread chat messages
+}
+
+export interface NotificationPayload extends PushOptions {
   userId: string;
   type: string;
   title: string;
   body: string;
   data?: Record<string, any>;
   category?: keyof NotificationPreferences;
+  email?: EmailContent;
+  sms?: SmsContent;
+}
+
+export type NotificationChannel = 'push' | 'in_app' | 'email' | 'sms';
+
+export type InAppNotificationType = 'info' | 'warning' | 'error' | 'success';
+
+export interface SendOptions {
+  skipPreferenceCheck?: boolean; // Caller has already consulted shouldSendNotification
+  notificationId?: string; // Shared id for the delivery log (generated when omitted)
+  skipQuietHours?: boolean; // Send now even if the user is in quiet hours or do-not-disturb
+  skipDigest?: boolean; // Send individually even if the category has a digest rule
+}
+
+export interface ChannelSendResult {
+  notificationId?: string;
+  success: boolean;
+  sent: number;
+  failed: number;
+  queued?: number; // Transient failures handed to the retry queue
+  skipped?: 'preferences' | 'no_tokens' | 'no_email' | 'no_phone';
+  deferredUntil?: Date; // Held back until quiet hours or do-not-disturb end, or the digest is sent
+  deferredReason?: 'quiet_hours' | 'dnd' | 'digest';
+  scheduledId?: string;
+  digestId?: string;
+}
+
+export interface DispatchRequest {
+  userIds: string[];
+  channels: NotificationChannel[] | 'all';
+  type: string;
+  title: string;
+  body: string;
+  data?: Record<string, any>;
+  category?: keyof NotificationPreferences;
+  inApp?: { type?: InAppNotificationType };
+  push?: PushOptions;
+  email?: EmailContent;
+  sms?: SmsContent;
+}
+
+export interface ChannelDispatchResult {
+  status: 'sent' | 'queued' | 'deferred' | 'skipped' | 'failed';
+  sent?: number;
+  failed?: number;
+  queued?: number;
+  reason?: string;
+  deferredUntil?: Date;
+  notificationId?: string;
+}
+
+export interface UserSendResult extends ChannelDispatchResult {
+  userId: string;
+}
+
+export interface BatchChannelResult {
+  sent: number; // Devices (push) or messages (SMS) delivered
+  failed: number;
+  deferred: number; // Users held back for quiet hours or a digest
+  users: Record<ChannelDispatchResult['status'], number>;
+  results: UserSendResult[];
+}
+
+export interface UserDispatchResult {
+  userId: string;
+  notificationId: string;
+  channels: Partial<Record<NotificationChannel, ChannelDispatchResult>>;
 }
 
 